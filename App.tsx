@@ -9,15 +9,34 @@ import {
   Navigate,
   useNavigate
 } from 'react-router-dom';
-import { DropZone } from './components/DropZone';
+import { DropZone, isIgnoredPath } from './components/DropZone';
+import { FileTree } from './components/FileTree';
 import { Visualizer } from './components/Visualizer';
-import { DiagnosticPanel } from './components/DiagnosticPanel';
+import { DiagnosticPanel, DIAGNOSTIC_SOURCE_LABELS } from './components/DiagnosticPanel';
 import { AnnotatedCodeView } from './components/AnnotatedCodeView';
 import { DiffView } from './components/DiffView';
 import { Playground } from './components/Playground';
-import { FileEntry, Diagnostic, BundleStats, LintIssue, ComponentMetadata } from './types';
-import { analyzeBundleWithGemini, lintBundleWithGemini, refactorBundleWithGemini, discoverComponentsWithGemini } from './services/geminiService';
-import { performStaticLint } from './services/eslintService';
+import { BundleHistory } from './components/BundleHistory';
+import { RefactorPanel } from './components/RefactorPanel';
+import { CodeEditor, RevealLocation } from './components/CodeEditor';
+import { LintRulesEditor } from './components/LintRulesEditor';
+import { PackageSettings } from './components/PackageSettings';
+import { ProposedChanges } from './components/ProposedChanges';
+import { PreviewPane } from './components/PreviewPane';
+import { FileEntry, Diagnostic, DiagnosticSource, BundleStats, LintIssue, ComponentMetadata, BundleFormat, BundleMode, BundleSizeComparison, ModuleSizeReport, SelectedFile, SourceMap, BundleResult, BundleSnapshot, RefactorProposal, LintConfig, LintRuleSetting } from './types';
+import { analyzeBundleWithGemini, lintBundleWithGemini, refactorBundleWithGemini, refactorWorkspaceWithGemini, discoverComponentsWithGemini, isGeminiConfigured } from './services/geminiService';
+import { enrichComponents } from './services/componentDiscoveryService';
+import { findDefaultEntry, getModuleId, isScriptFile, SourceLocation, TransformError } from './services/bundlerService';
+import { analyzeInWorker, bundleInWorker, discoverInWorker, fixInWorker, isAbortError, BuildProgress, BuildStage, StaticLintMessage } from './services/buildService';
+import { concatenateSources, createGeneratedLineLookup, createSourceMapLookup, toInlineSourceMapComment } from './services/sourceMapService';
+import { createPreviewLocator, HotUpdate, injectPreviewBridge, PreviewLocator } from './services/previewBridgeService';
+import { hotRegistration, isPreviewPage, isPreviewScript, isPreviewStyle, planPreviewChange, PreviewSources, previewStyleContent } from './services/hotReloadService';
+import { createZip, extractArchive, isArchiveFile } from './services/archiveService';
+import { runTypeCheck, isTypeScriptFile } from './services/typeCheckService';
+import { loadHistory, saveHistory } from './services/historyService';
+import { findLintConfigFiles, getWorkspaceKey, loadLintRules, loadWorkspaceLintConfig, saveLintRules } from './services/lintConfigService';
+import { canFormat, formatWithPrettier, loadPrettierConfig, PrettierConfig } from './services/formatService';
+import { buildImportMap, ImportMap, isMappedSpecifier, loadPackageOverrides, loadPackageRegistry, readWorkspaceDependencies, resolvePackageEntries, savePackageOverrides, savePackageRegistry, toImportMapScript, WorkspaceDependencies } from './services/importMapService';
 import { 
   Zap, Download, Copy, Trash2, LayoutTemplate, 
   Activity, Sparkles, Code, FileText, Settings, Play,
@@ -25,17 +44,37 @@ import {
   Bug, AlertTriangle, Check, Info as InfoIcon, FileCode2,
   Globe, Paintbrush, RotateCw, GitCompare, Boxes, ExternalLink,
   ChevronRight, ClipboardCheck, AlertCircle, ListFilter,
-  ShieldCheck, Cpu, SearchCode, BookOpen, StickyNote
+  ShieldCheck, Cpu, SearchCode, BookOpen, StickyNote, Archive,
+  History as HistoryIcon, PencilLine, Wrench, X
 } from 'lucide-react';
 
-const STORAGE_KEY_CODE = 'bundle_blitz_code';
 const STORAGE_KEY_FILES = 'bundle_blitz_files';
+const WORKSPACE_MANIFEST = 'bundleblitz.manifest.json';
+const WATCH_DEBOUNCE_MS = 400;
+
+const BUILD_STAGE_LABELS: Record<BuildStage, string> = {
+  transform: 'Transforming',
+  minify: 'Minifying',
+  lint: 'Linting',
+  size: 'Measuring',
+};
+
+// Everything about a diagnostic besides its message and severity
+type DiagnosticDetails = Partial<Omit<Diagnostic, 'id' | 'type' | 'message' | 'timestamp'>>;
+
+const withContent = (file: FileEntry, content: string): FileEntry => ({
+  ...file,
+  content,
+  size: new TextEncoder().encode(content).length,
+});
 
 const getFileTypeInfo = (fileName: string) => {
   const ext = fileName.split('.').pop()?.toLowerCase();
   switch (ext) {
-    case 'js': case 'jsx': case 'ts': case 'tsx': case 'mjs':
+    case 'js': case 'jsx': case 'mjs': case 'cjs':
       return { Icon: FileCode2, color: 'text-yellow-400', bg: 'bg-yellow-400/10', label: 'JavaScript' };
+    case 'ts': case 'tsx': case 'mts': case 'cts':
+      return { Icon: FileCode2, color: 'text-sky-400', bg: 'bg-sky-400/10', label: 'TypeScript' };
     case 'css': case 'scss': case 'less': case 'sass':
       return { Icon: Paintbrush, color: 'text-blue-400', bg: 'bg-blue-400/10', label: 'Style' };
     case 'html': case 'htm':
@@ -53,9 +92,8 @@ const getFileTypeInfo = (fileName: string) => {
   }
 };
 
-const isBinaryFile = async (file: File): Promise<boolean> => {
-  const buffer = await file.arrayBuffer();
-  const bytes = new Uint8Array(buffer.slice(0, 8192));
+const isBinaryContent = (content: Uint8Array): boolean => {
+  const bytes = content.subarray(0, 8192);
   let nonPrintableCount = 0;
   
   for (let i = 0; i < bytes.length; i++) {
@@ -67,10 +105,27 @@ const isBinaryFile = async (file: File): Promise<boolean> => {
   return (nonPrintableCount / bytes.length) > 0.1;
 };
 
-const constructPreview = (files: FileEntry[]) => {
-  const htmlFile = files.find(f => /\.(html|htm)$/i.test(f.name));
-  const cssFiles = files.filter(f => /\.(css|scss|less)$/i.test(f.name));
-  const jsFiles = files.filter(f => /\.(js|ts|jsx|tsx|mjs)$/i.test(f.name));
+const isBinaryFile = async (file: File): Promise<boolean> => {
+  const buffer = await file.arrayBuffer();
+  return isBinaryContent(new Uint8Array(buffer.slice(0, 8192)));
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Revoke on the next tick so the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const constructPreview = (files: FileEntry[], bundledScript?: string, importMap?: ImportMap) => {
+  const htmlFile = files.find(isPreviewPage);
+  const cssFiles = files.filter(isPreviewStyle);
+  const jsFiles = files.filter(isPreviewScript);
 
   let htmlContent = htmlFile ? htmlFile.content : '';
 
@@ -82,7 +137,7 @@ const constructPreview = (files: FileEntry[]) => {
   // Check for existing structural elements
   const hasDocType = /<!DOCTYPE html/i.test(htmlContent);
   const hasHtmlTag = /<html/i.test(htmlContent);
-  const hasHeadTag = /<head/i.test(htmlContent);
+  const hasHeadTag = /<head[\s>]/i.test(htmlContent);
   const hasBodyTag = /<body/i.test(htmlContent);
   const hasTitleTag = /<title/i.test(htmlContent);
 
@@ -108,13 +163,13 @@ const constructPreview = (files: FileEntry[]) => {
     } else {
       // Add missing meta/title tags if <head> exists but they are missing
       if (!/<meta[^>]*charset/i.test(finalHtml)) {
-        finalHtml = finalHtml.replace(/<head[^>]*>/i, (m) => `${m}\n  <meta charset="UTF-8">`);
+        finalHtml = finalHtml.replace(/<head(\s[^>]*)?>/i, (m) => `${m}\n  <meta charset="UTF-8">`);
       }
       if (!/<meta[^>]*viewport/i.test(finalHtml)) {
-        finalHtml = finalHtml.replace(/<head[^>]*>/i, (m) => `${m}\n  <meta name="viewport" content="width=device-width, initial-scale=1.0">`);
+        finalHtml = finalHtml.replace(/<head(\s[^>]*)?>/i, (m) => `${m}\n  <meta name="viewport" content="width=device-width, initial-scale=1.0">`);
       }
       if (!hasTitleTag) {
-        finalHtml = finalHtml.replace(/<head[^>]*>/i, (m) => `${m}\n  <title>BundleBlitz Preview</title>`);
+        finalHtml = finalHtml.replace(/<head(\s[^>]*)?>/i, (m) => `${m}\n  <title>BundleBlitz Preview</title>`);
       }
     }
   }
@@ -132,8 +187,9 @@ const constructPreview = (files: FileEntry[]) => {
     }
     body { margin: 0; padding: 0; }
   `;
-  const userStyles = cssFiles.map(f => `/* --- ${f.name} --- */\n${f.content}`).join('\n');
-  const styleBlock = `<style>\n${baseStyles}\n${userStyles}\n</style>`;
+  // One block per file, so a hot update can swap a single file's styles
+  const userStyles = cssFiles.map(f => `<style data-preview-style="${f.path.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}">\n${previewStyleContent(f)}\n</style>`);
+  const styleBlock = [`<style>\n${baseStyles}\n</style>`, ...userStyles].join('\n');
   
   // Inject style block into <head>
   if (finalHtml.toLowerCase().includes('</head>')) {
@@ -142,9 +198,14 @@ const constructPreview = (files: FileEntry[]) => {
     finalHtml = finalHtml.replace(/<body[^>]*>/i, (match) => `<head>${styleBlock}</head>\n${match}`);
   }
 
-  // 3. Prepare Scripts (Module-based to support import/export syntax)
+  // 3. Map bare imports (`import React from 'react'`) to package URLs; a page may bring its own map instead
+  if (importMap && Object.keys(importMap.imports).length > 0 && !/<script[^>]*type=["']?importmap/i.test(finalHtml)) {
+    finalHtml = finalHtml.replace(/<head(\s[^>]*)?>/i, (m) => `${m}\n${toImportMapScript(importMap)}`);
+  }
+
+  // 4. Prepare Scripts (Module-based to support import/export syntax)
   if (jsFiles.length > 0) {
-    const scripts = jsFiles.map(f => `// --- ${f.name} ---\n${f.content}`).join('\n');
+    const scripts = bundledScript ?? jsFiles.map(f => `// --- ${f.name} ---\n${f.content}`).join('\n');
     const scriptBlock = `<script type="module">\n${scripts.replace(/<\/script>/g, '<\\/script>')}\n</script>`;
     
     // Inject scripts at end of <body>
@@ -160,8 +221,13 @@ const constructPreview = (files: FileEntry[]) => {
 
 const BundleBlitz: React.FC = () => {
   const location = useLocation();
+  const navigate = useNavigate();
   const [files, setFiles] = useState<FileEntry[]>([]);
   const [bundledCode, setBundledCode] = useState<string>('');
+  const [sourceMap, setSourceMap] = useState<SourceMap | null>(null);
+  const [history, setHistory] = useState<BundleSnapshot[]>([]);
+  // The latest history for async code; storage is written here, never from a state updater
+  const historyRef = useRef<BundleSnapshot[]>([]);
   const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
@@ -169,47 +235,79 @@ const BundleBlitz: React.FC = () => {
   const [aiAnalysis, setAiAnalysis] = useState<string>('');
   const [renderedAnalysis, setRenderedAnalysis] = useState<string>('');
   const [lintIssues, setLintIssues] = useState<LintIssue[]>([]);
+  const [eslintIssues, setEslintIssues] = useState<LintIssue[]>([]);
+  const [selectedIssueIndex, setSelectedIssueIndex] = useState<number | null>(null);
   const [discoveredComponents, setDiscoveredComponents] = useState<ComponentMetadata[]>([]);
-  const [activeAiTab, setActiveAiTab] = useState<'analysis' | 'lint' | 'discover'>('analysis');
+  const [activeAiTab, setActiveAiTab] = useState<'analysis' | 'lint' | 'discover' | 'refactor'>('analysis');
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [isLintLoading, setIsLintLoading] = useState(false);
   const [isDiscovering, setIsDiscovering] = useState(false);
+  // What Gemini last said about the components, kept to enrich later static scans
+  const suggestedComponents = useRef<ComponentMetadata[]>([]);
   
   const [bundleType, setBundleType] = useState<'JS' | 'HTML'>('JS');
   const [enableTranspilation, setEnableTranspilation] = useState(true);
+  const [bundleFormat, setBundleFormat] = useState<BundleFormat>('iife');
+  const [bundleMode, setBundleMode] = useState<BundleMode>('development');
+  const [preserveLicenseComments, setPreserveLicenseComments] = useState(true);
+  const [sizeStats, setSizeStats] = useState<BundleSizeComparison | null>(null);
+  const [moduleSizes, setModuleSizes] = useState<ModuleSizeReport[]>([]);
+  const [enableSourceMaps, setEnableSourceMaps] = useState(true);
+  const [enableTypeCheck, setEnableTypeCheck] = useState(false);
+  const [entryFile, setEntryFile] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewLocator, setPreviewLocator] = useState<PreviewLocator | null>(null);
+  // What the preview frames are running, hot updates included; null forces a full reload
+  const previewSourcesRef = useRef<PreviewSources | null>(null);
+  const [hotUpdate, setHotUpdate] = useState<{ id: number; update: HotUpdate } | null>(null);
+  const [previewReloads, setPreviewReloads] = useState(0);
+  // Set when a change to the files should be followed by a build once the new files are rendered
+  const rebuildPending = useRef(false);
+  const [openFileIds, setOpenFileIds] = useState<string[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [rebundleOnSave, setRebundleOnSave] = useState(false);
+  const [watchMode, setWatchMode] = useState(false);
+  const buildController = useRef<AbortController | null>(null);
+  const [buildProgress, setBuildProgress] = useState<BuildProgress[]>([]);
+  const [workspaceLintConfig, setWorkspaceLintConfig] = useState<LintConfig | null>(null);
+  const [customLintRules, setCustomLintRules] = useState<Record<string, LintRuleSetting>>({});
+  const [packageRegistry, setPackageRegistry] = useState(loadPackageRegistry);
+  const [packageOverrides, setPackageOverrides] = useState<Record<string, string>>({});
+  // Entry files read from the package.json of packages served from a {entry} registry
+  const [packageEntries, setPackageEntries] = useState<Record<string, string>>({});
+  // Format / fix results waiting for review before they are written to the files
+  const [pendingChanges, setPendingChanges] = useState<{ title: string; source: DiagnosticSource; proposals: RefactorProposal[] } | null>(null);
+  const [isFixing, setIsFixing] = useState(false);
+  // Where the file editor scrolls to after a lint issue or diagnostic is clicked
+  const [revealLocation, setRevealLocation] = useState<RevealLocation | null>(null);
 
-  const addDiagnostic = (message: string, type: Diagnostic['type'] = 'info') => {
+  const addDiagnostic = (message: string, type: Diagnostic['type'] = 'info', details: DiagnosticDetails = {}) => {
     setDiagnostics(prev => [...prev, {
       id: Math.random().toString(36).substr(2, 9),
       type,
+      source: 'app',
+      ...details,
       message,
       timestamp: Date.now()
     }]);
   };
 
   useEffect(() => {
-    const savedCode = localStorage.getItem(STORAGE_KEY_CODE);
+    const savedHistory = loadHistory();
     const savedFiles = localStorage.getItem(STORAGE_KEY_FILES);
     if (savedFiles) {
       try {
         const parsedFiles = JSON.parse(savedFiles);
-        if (Array.isArray(parsedFiles)) setFiles(parsedFiles);
+        // Workspaces saved before folder paths were tracked only have a name
+        if (Array.isArray(parsedFiles)) setFiles(parsedFiles.map((f: FileEntry) => ({ ...f, path: f.path || f.name })));
       } catch (e) {}
     }
-    if (savedCode) setBundledCode(savedCode);
+    historyRef.current = savedHistory;
+    setHistory(savedHistory);
+    if (savedHistory.length > 0) setBundledCode(savedHistory[0].code);
   }, []);
 
-  useEffect(() => {
-    if (location.pathname === '/preview') {
-      const html = constructPreview(files);
-      const blob = new Blob([html], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      setPreviewUrl(url);
-      return () => URL.revokeObjectURL(url);
-    }
-  }, [files, location.pathname]);
-
   // Handle markdown rendering for analysis
   useEffect(() => {
     if (!aiAnalysis) {
@@ -228,65 +326,288 @@ const BundleBlitz: React.FC = () => {
     render();
   }, [aiAnalysis]);
 
-  const runEslint = useCallback((code: string) => {
-    if (!code) return;
-    const messages = performStaticLint(code);
-    
+  const scriptFiles = useMemo(() => files.filter(f => isScriptFile(f.name)), [files]);
+  const activeEntry = useMemo(() => {
+    if (entryFile && scriptFiles.some(f => getModuleId(f) === entryFile)) return entryFile;
+    return findDefaultEntry(files);
+  }, [entryFile, scriptFiles, files]);
+
+  const workspaceKey = useMemo(() => getWorkspaceKey(files), [files]);
+  useEffect(() => {
+    setCustomLintRules(loadLintRules(workspaceKey));
+  }, [workspaceKey]);
+
+  // Re-read the workspace ESLint config only when one of the config files changes
+  const lintConfigFiles = useMemo(() => findLintConfigFiles(files), [files]);
+  const lintConfigKey = lintConfigFiles.map(f => `${f.path}\0${f.content}`).join('\0');
+  useEffect(() => {
+    let mounted = true;
+    loadWorkspaceLintConfig(lintConfigFiles)
+      .then(config => {
+        if (!mounted) return;
+        setWorkspaceLintConfig(config);
+        if (config) {
+          const skipped = config.skippedRules.length ? `; skipped ${config.skippedRules.length} plugin or computed rule(s)` : '';
+          addDiagnostic(`ESLint: using ${Object.keys(config.rules).length} rule(s) from ${config.source}${skipped}.`, 'info', { source: 'eslint' });
+        }
+      })
+      .catch(err => {
+        if (!mounted) return;
+        setWorkspaceLintConfig(null);
+        addDiagnostic(`${(err as Error).message} Falling back to the rules editor.`, 'warning', { source: 'eslint' });
+      });
+    return () => { mounted = false; };
+  }, [lintConfigKey]);
+
+  // The registry follows the workspace, so the Playground has components without a scan; like
+  // watch mode, it waits for a pause in editing and a newer scan cancels an older one
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      discoverInWorker(files, controller.signal)
+        .then(components => setDiscoveredComponents(enrichComponents(components, suggestedComponents.current)))
+        .catch(err => {
+          if (!isAbortError(err)) addDiagnostic(`Component discovery failed: ${(err as Error).message}`, 'error', { source: 'app' });
+        });
+    }, WATCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [files]);
+
+  const lintConfig = useMemo<LintConfig>(
+    () => workspaceLintConfig ?? { rules: customLintRules, globals: {}, source: null, skippedRules: [] },
+    [workspaceLintConfig, customLintRules]
+  );
+
+  useEffect(() => {
+    setPackageOverrides(loadPackageOverrides(workspaceKey));
+  }, [workspaceKey]);
+
+  const workspaceDependencies = useMemo<WorkspaceDependencies>(() => {
+    try {
+      return readWorkspaceDependencies(files);
+    } catch (err) {
+      // Invalid JSON is already reported when the file is added
+      return { dependencies: [], source: null, skipped: [] };
+    }
+  }, [files]);
+
+  useEffect(() => {
+    let mounted = true;
+    resolvePackageEntries(workspaceDependencies.dependencies, packageRegistry, packageOverrides)
+      .then(entries => { if (mounted) setPackageEntries(entries); });
+    return () => { mounted = false; };
+  }, [workspaceDependencies, packageRegistry, packageOverrides]);
+
+  const importMap = useMemo<ImportMap>(
+    () => buildImportMap(workspaceDependencies.dependencies, packageRegistry, packageOverrides, packageEntries),
+    [workspaceDependencies, packageRegistry, packageOverrides, packageEntries]
+  );
+
+  useEffect(() => {
+    if (location.pathname !== '/preview') {
+      previewSourcesRef.current = null;
+      return;
+    }
+    const sources: PreviewSources = { files, importMap };
+    const change = previewSourcesRef.current ? planPreviewChange(previewSourcesRef.current, sources) : { type: 'reload' as const };
+    previewSourcesRef.current = sources;
+    if (change.type === 'none') return;
+    if (change.type === 'hot') {
+      setHotUpdate(prev => ({ id: (prev?.id ?? 0) + 1, update: change.update }));
+      return;
+    }
+    // Scripts are inlined one after another, so a line in the page maps straight back to its file
+    const scripts = concatenateSources(files.filter(isPreviewScript), (f: FileEntry) => `// --- ${f.name} ---`, hotRegistration);
+    const html = injectPreviewBridge(constructPreview(files, scripts.code, importMap));
+    const scriptLine = html.split('\n').indexOf(scripts.code.split('\n')[0]) + 1;
+    const blob = new Blob([html], { type: 'text/html' });
+    setPreviewUrl(URL.createObjectURL(blob));
+    setPreviewLocator(() => scriptLine > 0 ? createPreviewLocator(scripts.map, scriptLine) : null);
+  }, [files, importMap, location.pathname, previewReloads]);
+
+  // Hot updates keep the frames on their document, so it stays alive until a full reload replaces it
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const handlePreviewReload = useCallback(() => {
+    previewSourcesRef.current = null;
+    setPreviewReloads(n => n + 1);
+  }, []);
+
+  const handlePackageRegistryChange = (registry: string) => {
+    setPackageRegistry(registry);
+    savePackageRegistry(registry);
+  };
+
+  const handlePackageOverridesChange = (overrides: Record<string, string>) => {
+    setPackageOverrides(overrides);
+    savePackageOverrides(workspaceKey, overrides);
+  };
+
+  const handleLintRulesChange = (rules: Record<string, LintRuleSetting>) => {
+    setCustomLintRules(rules);
+    saveLintRules(workspaceKey, rules);
+  };
+
+  const sourceMapLookup = useMemo(() => sourceMap ? createSourceMapLookup(sourceMap) : null, [sourceMap]);
+
+  const codeIssues = useMemo(() => [...eslintIssues, ...lintIssues], [eslintIssues, lintIssues]);
+
+  const issueCountsByFile = useMemo(() => {
+    const counts = new Map<string, { errors: number; warnings: number }>();
+    codeIssues.forEach(issue => {
+      if (!issue.file || issue.severity === 'info') return;
+      const count = counts.get(issue.file) ?? { errors: 0, warnings: 0 };
+      if (issue.severity === 'error') count.errors++;
+      else count.warnings++;
+      counts.set(issue.file, count);
+    });
+    return counts;
+  }, [codeIssues]);
+
+  const clearCodeIssues = () => {
+    setEslintIssues([]);
+    setLintIssues([]);
+    setSelectedIssueIndex(null);
+  };
+
+  // Lint messages point at source files; the bundle line is only known for code that made it into the bundle
+  const reportEslint = useCallback((messages: StaticLintMessage[], map: SourceMap | null, lintedFiles: FileEntry[]) => {
+    const lookup = map ? createGeneratedLineLookup(map) : null;
+    setEslintIssues(messages.map(msg => ({
+      file: msg.file,
+      line: msg.line,
+      generatedLine: lookup?.(msg.file, msg.line) ?? undefined,
+      severity: msg.severity === 2 ? 'error' : 'warning',
+      message: msg.message,
+      origin: 'eslint',
+      ruleId: msg.ruleId,
+    })));
+
     if (messages.length === 0) {
-      addDiagnostic("ESLint: No static style issues found.", "info");
+      addDiagnostic("ESLint: No static style issues found.", "info", { source: 'eslint' });
       return;
     }
 
-    messages.forEach((msg, idx) => {
+    const contentByPath = new Map(lintedFiles.map(f => [f.path, f.content]));
+    messages.forEach(msg => {
       const severity = msg.severity === 2 ? 'error' : 'warning';
-      addDiagnostic(`[ESLint] Line ${msg.line}: ${msg.message} (${msg.ruleId})`, severity);
+      const content = contentByPath.get(msg.file);
+      addDiagnostic(msg.message, severity, {
+        source: 'eslint',
+        file: msg.file,
+        line: msg.line,
+        column: msg.column,
+        ruleId: msg.ruleId,
+        fix: msg.fix && content !== undefined ? { ...msg.fix, content } : undefined,
+      });
     });
   }, []);
 
-  const handleFilesSelected = async (selectedFiles: File[]) => {
+  const runTypeCheckPass = useCallback(async () => {
+    const startedAt = performance.now();
+    try {
+      const results = await runTypeCheck(files);
+      const elapsed = Math.round(performance.now() - startedAt);
+      if (results.length === 0) {
+        addDiagnostic(`TypeScript: No type errors found (${elapsed}ms).`, 'info', { source: 'typescript' });
+        return;
+      }
+      results.forEach(d => {
+        addDiagnostic(d.message, d.category, { source: 'typescript', file: d.file, line: d.line, column: d.column, ruleId: `TS${d.code}` });
+      });
+      addDiagnostic(`TypeScript: ${results.length} issue(s) found (${elapsed}ms).`, 'warning', { source: 'typescript' });
+    } catch (err) {
+      addDiagnostic(`Type-check failed: ${(err as Error).message}`, 'error', { source: 'typescript' });
+    }
+  }, [files]);
+
+  const handleFilesSelected = async (selectedFiles: SelectedFile[]) => {
     setIsProcessing(true);
     const newFileEntries: FileEntry[] = [];
     let binaryCount = 0;
 
+    const addTextEntry = (path: string, text: string, size: number, type: string) => {
+      const name = path.split('/').pop() || path;
+      const ext = name.split('.').pop()?.toLowerCase();
+      
+      // Granular diagnostics for .json, .txt, .md
+      if (!text || text.trim().length === 0) {
+        let msg = `File "${path}" is empty.`;
+        if (ext === 'json') msg = `JSON configuration file "${path}" is completely empty.`;
+        if (ext === 'md') msg = `Markdown documentation "${path}" has no content.`;
+        if (ext === 'txt') msg = `Plain text file "${path}" is blank.`;
+        addDiagnostic(msg, 'warning', { file: path });
+      } else if (ext === 'json') {
+        try {
+          const parsed = JSON.parse(text);
+          if (Object.keys(parsed).length === 0 && !Array.isArray(parsed)) {
+            addDiagnostic(`JSON file "${path}" is just an empty object.`, 'info', { file: path });
+          }
+        } catch (jsonErr) {
+          addDiagnostic(`Invalid JSON in "${path}": ${(jsonErr as Error).message}`, 'error', { file: path });
+        }
+      } else if (ext === 'md') {
+        if (!text.includes('#') && !text.includes('- ') && !text.includes('* ')) {
+          addDiagnostic(`Markdown document "${path}" appears to lack standard formatting (headers/lists).`, 'info', { file: path });
+        }
+      }
+
+      newFileEntries.push({ 
+        id: Math.random().toString(36).substr(2, 9), 
+        name, 
+        path,
+        size, 
+        content: text, 
+        type 
+      });
+    };
+
+    const extractArchiveEntries = async (file: File, archivePath: string) => {
+      const entries = await extractArchive(file);
+      const decoder = new TextDecoder();
+      let added = 0;
+      let ignored = 0;
+      let binary = 0;
+      for (const entry of entries) {
+        const bytes = typeof entry.content === 'string' ? new TextEncoder().encode(entry.content) : entry.content;
+        if (isIgnoredPath(entry.path)) {
+          ignored++;
+        } else if (isBinaryContent(bytes)) {
+          binary++;
+        } else {
+          addTextEntry(entry.path, decoder.decode(bytes), bytes.length, '');
+          added++;
+        }
+      }
+      const skipped = [ignored && `${ignored} ignored`, binary && `${binary} binary`].filter(Boolean).join(', ');
+      addDiagnostic(
+        `Extracted ${added} of ${entries.length} file(s) from "${archivePath}"${skipped ? ` (skipped ${skipped})` : ''}.`,
+        added === 0 ? 'warning' : 'info'
+      );
+    };
+
     try {
-      for (const file of selectedFiles) {
+      for (const { file, path } of selectedFiles) {
+        if (isArchiveFile(file.name)) {
+          try {
+            await extractArchiveEntries(file, path);
+          } catch (archiveErr) {
+            addDiagnostic(`Could not unpack "${path}": ${(archiveErr as Error).message}`, 'error');
+          }
+          continue;
+        }
+
         if (await isBinaryFile(file)) {
           binaryCount++;
           continue;
         }
-        
-        const text = await file.text();
-        const ext = file.name.split('.').pop()?.toLowerCase();
-        
-        // Granular diagnostics for .json, .txt, .md
-        if (!text || text.trim().length === 0) {
-          let msg = `File "${file.name}" is empty.`;
-          if (ext === 'json') msg = `JSON configuration file "${file.name}" is completely empty.`;
-          if (ext === 'md') msg = `Markdown documentation "${file.name}" has no content.`;
-          if (ext === 'txt') msg = `Plain text file "${file.name}" is blank.`;
-          addDiagnostic(msg, 'warning');
-        } else if (ext === 'json') {
-          try {
-            const parsed = JSON.parse(text);
-            if (Object.keys(parsed).length === 0 && !Array.isArray(parsed)) {
-              addDiagnostic(`JSON file "${file.name}" is just an empty object.`, 'info');
-            }
-          } catch (jsonErr) {
-            addDiagnostic(`Invalid JSON in "${file.name}": ${(jsonErr as Error).message}`, 'error');
-          }
-        } else if (ext === 'md') {
-          if (!text.includes('#') && !text.includes('- ') && !text.includes('* ')) {
-            addDiagnostic(`Markdown document "${file.name}" appears to lack standard formatting (headers/lists).`, 'info');
-          }
-        }
 
-        newFileEntries.push({ 
-          id: Math.random().toString(36).substr(2, 9), 
-          name: file.name, 
-          size: file.size, 
-          content: text, 
-          type: file.type 
-        });
+        addTextEntry(path, await file.text(), file.size, file.type);
       }
       
       if (newFileEntries.length > 0) {
@@ -304,53 +625,152 @@ const BundleBlitz: React.FC = () => {
     }
   };
 
+  const updateHistory = useCallback((next: BundleSnapshot[]) => {
+    const kept = saveHistory(next);
+    historyRef.current = kept;
+    setHistory(kept);
+  }, []);
+
   const handleBundle = useCallback(async () => {
     if (files.length === 0) return;
+    // Starting a build supersedes whatever build is still running
+    buildController.current?.abort();
+    const controller = new AbortController();
+    buildController.current = controller;
+    const { signal } = controller;
+    const onProgress = (progress: BuildProgress) => setBuildProgress(prev => [...prev, progress]);
+
     setIsProcessing(true);
+    setBuildProgress([]);
+    const startedAt = performance.now();
     try {
+      if (enableTypeCheck && files.some(f => isTypeScriptFile(f.name))) {
+        await runTypeCheckPass();
+        signal.throwIfAborted();
+      }
+
       let finalCode = '';
+      let unoptimizedCode = '';
+      let finalMap: SourceMap | null = null;
+      let scriptResult: BundleResult | null = null;
+      const bundleScripts = async (format: BundleFormat) => {
+        const result = await bundleInWorker(files, {
+          entry: activeEntry || undefined,
+          format,
+          transpile: enableTranspilation,
+          mode: bundleMode,
+          preserveLicenseComments,
+        }, signal, onProgress);
+        result.warnings.forEach(({ message, ...details }) => addDiagnostic(message, 'warning', details));
+        addDiagnostic(`Resolved ${result.modules.length} module(s) from ${result.entry}${result.externals.length ? `, ${result.externals.length} external` : ''}.`, 'info', { source: 'bundler' });
+        if (bundleMode === 'production') {
+          addDiagnostic(`Tree-shaking removed ${result.removedExports.length} unused export(s).`, 'info', { source: 'bundler' });
+        }
+        scriptResult = result;
+        return result;
+      };
+
       if (bundleType === 'HTML') {
-        finalCode = constructPreview(files);
+        const result = scriptFiles.length > 0 ? await bundleScripts('esm') : null;
+        finalCode = constructPreview(files, result?.code, importMap);
+        unoptimizedCode = constructPreview(files, result?.unminifiedCode ?? result?.code, importMap);
+        result?.externals.filter(specifier => !isMappedSpecifier(importMap, specifier)).forEach(specifier => {
+          addDiagnostic(`"${specifier}" is not in package.json dependencies, so the preview cannot load it.`, 'warning', { source: 'import' });
+        });
+      } else if (scriptFiles.length === 0) {
+        addDiagnostic("No JS/TS source files found. Bundling remaining text assets as generic source.", "warning", { source: 'bundler' });
+        finalCode = files.map(f => `// --- ${f.name} ---\n${f.content}\n`).join('\n');
+        unoptimizedCode = finalCode;
       } else {
-        const jsFiles = files.filter(f => /\.(js|ts|jsx|tsx|mjs|cjs)$/i.test(f.name));
-        
-        if (jsFiles.length === 0) {
-           addDiagnostic("No JS/TS source files found. Bundling remaining text assets as generic source.", "warning");
-           finalCode = files.map(f => `// --- ${f.name} ---\n${f.content}\n`).join('\n');
-        } else {
-           finalCode = jsFiles.map(f => `// --- ${f.name} ---\n${f.content}\n`).join('\n');
-        }
-        
-        if (enableTranspilation && jsFiles.length > 0) {
-          try {
-            const Babel = await import('@babel/standalone');
-            const sanitizedCode = finalCode.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]/g, "");
-            
-            const res = Babel.transform(sanitizedCode, { 
-              presets: ['env', 'react'], 
-              filename: 'bundle.js', 
-              retainLines: true 
-            });
-            if (res.code) finalCode = res.code;
-          } catch (babelError) {
-            const msg = (babelError as Error).message;
-            throw new Error(`Syntax Error in workspace code: ${msg.split('\n')[0]}. Ensure you are not bundling non-JS files.`);
-          }
-        }
+        const result = await bundleScripts(bundleFormat);
+        finalCode = result.code;
+        unoptimizedCode = result.unminifiedCode ?? result.code;
+        finalMap = result.map;
       }
 
+      // Measure before the inline source map is appended; it is not part of the shipped code
+      const measured: BundleResult | null = scriptResult;
+      const { sizes, moduleSizes: measuredModules, lintMessages } = await analyzeInWorker({
+        finalCode,
+        unoptimizedCode,
+        lintFiles: files,
+        lintConfig,
+        bundle: measured ? { code: measured.code, map: measured.map, transpiledSizes: measured.transpiledSizes } : null,
+      }, signal, onProgress);
+      setSizeStats(sizes);
+      setModuleSizes(measuredModules);
+
+      // Snapshots keep the code without its inline map so diffs between builds only show real changes
+      const snapshot: BundleSnapshot = {
+        id: Math.random().toString(36).substr(2, 9),
+        timestamp: Date.now(),
+        code: finalCode,
+        settings: {
+          bundleType,
+          format: bundleFormat,
+          mode: bundleMode,
+          entry: activeEntry,
+          transpile: enableTranspilation,
+          sourceMaps: enableSourceMaps,
+          preserveLicenseComments,
+        },
+        stats: { totalSize: sizes.after.raw, fileCount: files.length, linesOfCode: finalCode.split('\n').length },
+        sizes,
+        modules: measured ? measured.modules : [],
+      };
+      updateHistory([snapshot, ...historyRef.current]);
+
+      if (finalMap && enableSourceMaps) finalCode += toInlineSourceMapComment(finalMap) + '\n';
+
+      clearCodeIssues();
       setBundledCode(finalCode);
-      addDiagnostic(`Workspace bundled successfully as ${bundleType}.`);
+      setSourceMap(finalMap);
+      const elapsed = Math.round(performance.now() - startedAt);
+      const stats = measured ? ` (${measured.transformStats.transformed} module(s) transformed, ${measured.transformStats.cached} from cache)` : '';
+      addDiagnostic(`Workspace bundled successfully as ${bundleType} in ${elapsed}ms${stats}.`, 'info', { source: 'bundler' });
       
-      runEslint(finalCode);
+      reportEslint(lintMessages, finalMap, files);
       
-      localStorage.setItem(STORAGE_KEY_CODE, finalCode);
       localStorage.setItem(STORAGE_KEY_FILES, JSON.stringify(files));
     } catch (err) { 
+      if (isAbortError(err)) {
+        // A build a newer one replaced is not worth a message; one the user cancelled is
+        if (buildController.current === controller) addDiagnostic('Build cancelled.', 'info', { source: 'bundler' });
+        return;
+      }
       console.error(err);
-      addDiagnostic(`${(err as Error).message}`, 'error'); 
-    } finally { setIsProcessing(false); }
-  }, [files, enableTranspilation, bundleType, runEslint]);
+      if (err instanceof TransformError) addDiagnostic(err.message, 'error', { source: 'babel', ...err.location });
+      else addDiagnostic(`${(err as Error).message}`, 'error', { source: 'bundler' });
+    } finally {
+      // A newer build owns the progress state once this one has been superseded
+      if (buildController.current === controller) {
+        buildController.current = null;
+        setIsProcessing(false);
+        setBuildProgress([]);
+      }
+    }
+  }, [files, scriptFiles, activeEntry, enableTranspilation, enableSourceMaps, enableTypeCheck, bundleType, bundleFormat, bundleMode, preserveLicenseComments, lintConfig, importMap, reportEslint, runTypeCheckPass, updateHistory]);
+
+  const handleCancelBuild = () => {
+    buildController.current?.abort();
+  };
+
+  // Watch mode: rebuild shortly after the last change to the workspace; the new build
+  // cancels one that is still running
+  const latestBundle = useRef(handleBundle);
+  latestBundle.current = handleBundle;
+  useEffect(() => {
+    if (!watchMode || files.length === 0) return;
+    const timer = setTimeout(() => latestBundle.current(), WATCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [files, watchMode]);
+
+  useEffect(() => {
+    if (!rebuildPending.current) return;
+    rebuildPending.current = false;
+    // Watch mode already rebuilds on every change to the files
+    if (!watchMode) handleBundle();
+  }, [handleBundle, watchMode]);
 
   const handleCopy = () => {
     if (!bundledCode) return;
@@ -360,9 +780,34 @@ const BundleBlitz: React.FC = () => {
     addDiagnostic('Bundle copied to clipboard.');
   };
 
+  const handleDownload = () => {
+    if (!bundledCode) return;
+    const isHtml = bundleType === 'HTML';
+    const fileName = isHtml ? 'index.html' : 'bundle.js';
+    downloadBlob(new Blob([bundledCode], { type: isHtml ? 'text/html' : 'text/javascript' }), fileName);
+    addDiagnostic(`Bundle downloaded as ${fileName}.`);
+  };
+
+  const handleDownloadWorkspace = () => {
+    if (files.length === 0) return;
+    const manifest = {
+      name: 'bundleblitz-workspace',
+      exportedAt: new Date().toISOString(),
+      entry: activeEntry,
+      settings: { bundleType, bundleFormat, bundleMode, enableTranspilation, enableSourceMaps },
+      files: files.map(f => ({ path: f.path, size: f.size, type: f.type })),
+    };
+    const zip = createZip([
+      ...files.map(f => ({ path: f.path, content: f.content })),
+      { path: WORKSPACE_MANIFEST, content: JSON.stringify(manifest, null, 2) },
+    ]);
+    downloadBlob(zip, 'workspace.zip');
+    addDiagnostic(`Workspace exported as zip (${files.length} file(s)).`);
+  };
+
   const handleAiAudit = async () => {
     if (!bundledCode) {
-      addDiagnostic("Bundle your code first before auditing.", "warning");
+      addDiagnostic("Bundle your code first before auditing.", "warning", { source: 'ai' });
       return;
     }
     setActiveAiTab('analysis');
@@ -370,9 +815,9 @@ const BundleBlitz: React.FC = () => {
     try {
       const analysis = await analyzeBundleWithGemini(bundledCode);
       setAiAnalysis(analysis);
-      addDiagnostic("AI code audit complete.");
+      addDiagnostic("AI code audit complete.", 'info', { source: 'ai' });
     } catch (e) {
-      addDiagnostic(`Audit failed: ${(e as Error).message}`, 'error');
+      addDiagnostic(`Audit failed: ${(e as Error).message}`, 'error', { source: 'ai' });
     } finally {
       setIsAiLoading(false);
     }
@@ -380,44 +825,277 @@ const BundleBlitz: React.FC = () => {
 
   const handleAiLint = async () => {
     if (!bundledCode) {
-      addDiagnostic("Bundle your code first before linting.", "warning");
+      addDiagnostic("Bundle your code first before linting.", "warning", { source: 'ai' });
       return;
     }
     setActiveAiTab('lint');
     setIsLintLoading(true);
     try {
       const issues = await lintBundleWithGemini(bundledCode);
-      setLintIssues(issues);
-      addDiagnostic(`AI linting complete. Found ${issues.length} issues.`);
+      setSelectedIssueIndex(null);
+      setLintIssues(issues.map(issue => {
+        const original = issue.line ? sourceMapLookup?.(issue.line) : null;
+        const located: LintIssue = { ...issue, generatedLine: issue.line, origin: 'ai' };
+        return original ? { ...located, file: original.source, line: original.line } : located;
+      }));
+      addDiagnostic(`AI linting complete. Found ${issues.length} issues.`, 'info', { source: 'ai' });
     } catch (e) {
-      addDiagnostic(`Linting failed: ${(e as Error).message}`, 'error');
+      addDiagnostic(`Linting failed: ${(e as Error).message}`, 'error', { source: 'ai' });
     } finally {
       setIsLintLoading(false);
     }
   };
 
   const handleAiDiscover = async () => {
-    if (!bundledCode) {
-      addDiagnostic("Bundle your code first before scanning.", "warning");
-      return;
-    }
     setActiveAiTab('discover');
     setIsDiscovering(true);
     try {
-      const components = await discoverComponentsWithGemini(bundledCode);
-      setDiscoveredComponents(components);
-      addDiagnostic(`Component discovery complete. Identified ${components.length} components.`);
+      const components = await discoverInWorker(files);
+      setDiscoveredComponents(enrichComponents(components, suggestedComponents.current));
+      addDiagnostic(`Component discovery complete. Identified ${components.length} components.`, 'info', { source: 'app' });
+      // Gemini only adds descriptions and props the source did not spell out
+      if (!isGeminiConfigured() || !bundledCode || components.length === 0) return;
+      try {
+        suggestedComponents.current = await discoverComponentsWithGemini(bundledCode);
+        setDiscoveredComponents(enrichComponents(components, suggestedComponents.current));
+        addDiagnostic('Component descriptions enriched by Gemini.', 'info', { source: 'ai' });
+      } catch (e) {
+        addDiagnostic(`Gemini enrichment failed: ${(e as Error).message}`, 'warning', { source: 'ai' });
+      }
     } catch (e) {
-      addDiagnostic(`Discovery failed: ${(e as Error).message}`, 'error');
+      addDiagnostic(`Discovery failed: ${(e as Error).message}`, 'error', { source: 'app' });
     } finally {
       setIsDiscovering(false);
     }
   };
 
+  const handleAiRefactor = async (instruction: string, scope: string | null): Promise<RefactorProposal[]> => {
+    try {
+      let proposals: RefactorProposal[];
+      if (scope) {
+        const file = files.find(f => f.path === scope)!;
+        const modified = await refactorBundleWithGemini(file.content, instruction);
+        proposals = [{ path: file.path, original: file.content, modified }];
+      } else {
+        const { changes, skipped } = await refactorWorkspaceWithGemini(files.map(f => ({ path: f.path, content: f.content })), instruction);
+        if (skipped.length > 0) addDiagnostic(`AI refactor left out ${skipped.length} file(s) that did not fit in the request: ${skipped.join(', ')}.`, 'warning', { source: 'ai' });
+        proposals = changes.flatMap(r => {
+          const file = files.find(f => f.path === r.path);
+          // A file the model was not sent can only come back made up
+          if (!file || skipped.includes(r.path)) {
+            addDiagnostic(`AI refactor proposed a change to "${r.path}", which it was not sent; ignored.`, 'warning', { source: 'ai' });
+            return [];
+          }
+          return [{ path: file.path, original: file.content, modified: r.content }];
+        });
+      }
+      proposals = proposals.filter(p => p.original !== p.modified);
+      addDiagnostic(`AI refactor proposed changes to ${proposals.length} file(s).`, 'info', { source: 'ai' });
+      return proposals;
+    } catch (e) {
+      addDiagnostic(`Refactor failed: ${(e as Error).message}`, 'error', { source: 'ai' });
+      return [];
+    }
+  };
+
+  const handleApplyRefactor = (changes: { path: string; original: string; content: string }[]) => {
+    // Proposals were diffed against the files as they were when the request went out
+    const stale = changes.filter(c => files.find(f => f.path === c.path)?.content !== c.original);
+    if (stale.length > 0) addDiagnostic(`Dropped the refactor of ${stale.map(c => c.path).join(', ')}: the file changed after the request was sent.`, 'warning', { source: 'ai' });
+    // Saving the draft afterwards would quietly undo the refactor
+    const unsaved = changes.filter(c => !stale.includes(c) && hasUnsavedDraft(files.find(f => f.path === c.path)!));
+    if (unsaved.length > 0) addDiagnostic(`Skipped ${unsaved.map(c => c.path).join(', ')}: save your changes first.`, 'warning', { source: 'ai' });
+    const applied = changes.filter(c => !stale.includes(c) && !unsaved.includes(c));
+    if (applied.length === 0) return;
+    const byPath = new Map(applied.map(c => [c.path, c.content]));
+    const changedIds = files.filter(f => byPath.has(f.path)).map(f => f.id);
+    setFiles(prev => prev.map(f => byPath.has(f.path) ? withContent(f, byPath.get(f.path)!) : f));
+    setDrafts(prev => {
+      const rest = { ...prev };
+      changedIds.forEach(id => delete rest[id]);
+      return rest;
+    });
+    addDiagnostic(`Applied AI refactor to ${applied.length} file(s); rebuilding.`, 'info', { source: 'ai' });
+    rebuildPending.current = true;
+  };
+
+  const hasUnsavedDraft = (file: FileEntry) => drafts[file.id] !== undefined && drafts[file.id] !== file.content;
+
+  // ids is null for the whole workspace; files with unsaved edits are left alone so the edits are not lost
+  const getFixTargets = (ids: string[] | null, accepts: (name: string) => boolean) => {
+    const targets = files.filter(f => (ids === null || ids.includes(f.id)) && accepts(f.name));
+    const unsaved = targets.filter(hasUnsavedDraft);
+    if (unsaved.length > 0) addDiagnostic(`Skipped ${unsaved.map(f => f.path).join(', ')}: save your changes first.`, 'warning');
+    return targets.filter(f => !hasUnsavedDraft(f));
+  };
+
+  const proposeChanges = (title: string, changes: { path: string; content: string }[], unchangedMessage: string, source: DiagnosticSource) => {
+    const proposals = changes.flatMap(change => {
+      const file = files.find(f => f.path === change.path);
+      return file && file.content !== change.content ? [{ path: file.path, original: file.content, modified: change.content }] : [];
+    });
+    if (proposals.length === 0) addDiagnostic(unchangedMessage, 'info', { source });
+    else setPendingChanges({ title, source, proposals });
+  };
+
+  const handleFormat = async (ids: string[] | null) => {
+    let config: PrettierConfig;
+    try {
+      config = loadPrettierConfig(files);
+    } catch (e) {
+      addDiagnostic((e as Error).message, 'error', { source: 'prettier' });
+      return;
+    }
+    const targets = getFixTargets(ids, canFormat);
+    if (targets.length === 0) return;
+    setIsFixing(true);
+    try {
+      const changes: { path: string; content: string }[] = [];
+      for (const file of targets) {
+        try {
+          const content = await formatWithPrettier(file, config);
+          if (content !== null) changes.push({ path: file.path, content });
+        } catch (e) {
+          const loc = (e as any).loc?.start;
+          addDiagnostic(`Prettier could not format ${file.path}: ${(e as Error).message.split('\n')[0]}`, 'warning', { source: 'prettier', file: file.path, line: loc?.line, column: loc?.column });
+        }
+      }
+      proposeChanges(`Prettier (${config.source ?? 'default options'})`, changes, `${targets.length === 1 ? targets[0].path : `${targets.length} file(s)`} already formatted.`, 'prettier');
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
+  const handleFix = async (ids: string[] | null) => {
+    const targets = getFixTargets(ids, isScriptFile);
+    if (targets.length === 0) return;
+    setIsFixing(true);
+    try {
+      const changes = await fixInWorker(targets, lintConfig);
+      proposeChanges(`ESLint fixes (${lintConfig.source ?? 'editor rules'})`, changes, `ESLint found nothing to fix in ${targets.length === 1 ? targets[0].path : `${targets.length} file(s)`}.`, 'eslint');
+    } catch (e) {
+      addDiagnostic(`ESLint fix failed: ${(e as Error).message}`, 'error', { source: 'eslint' });
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
+  const handleApplyChanges = (changes: { path: string; content: string }[]) => {
+    if (!pendingChanges) return;
+    const { title, source } = pendingChanges;
+    setPendingChanges(null);
+    if (changes.length === 0) return;
+    const byPath = new Map(changes.map(c => [c.path, c.content]));
+    const changedIds = files.filter(f => byPath.has(f.path)).map(f => f.id);
+    setFiles(prev => prev.map(f => byPath.has(f.path) ? withContent(f, byPath.get(f.path)!) : f));
+    // Drafts left from earlier edits match the old content and would now read as unsaved changes
+    setDrafts(prev => {
+      const rest = { ...prev };
+      changedIds.forEach(id => delete rest[id]);
+      return rest;
+    });
+    addDiagnostic(`${title}: updated ${changes.map(c => c.path).join(', ')}.`, 'info', { source });
+    if (rebundleOnSave) rebuildPending.current = true;
+  };
+
+  const handleRestoreSnapshot = (snapshot: BundleSnapshot) => {
+    clearCodeIssues();
+    setBundledCode(snapshot.code);
+    setSourceMap(null);
+    addDiagnostic(`Loaded build from ${new Date(snapshot.timestamp).toLocaleTimeString()} into the Code view.`);
+    navigate('/editor');
+  };
+
+  const handleSelectIssue = (index: number) => {
+    setSelectedIssueIndex(index);
+    // Issues in code that is not part of the bundle can only be shown in their source file
+    const issue = codeIssues[index];
+    setRevealLocation(issue ? { file: issue.file, line: issue.line } : null);
+    const file = issue?.file && issue.generatedLine === undefined ? files.find(f => f.path === issue.file) : undefined;
+    if (file) handleOpenFile(file.id);
+    else navigate('/editor');
+  };
+
+  const handleSelectDiagnostic = (diag: Diagnostic) => {
+    const file = files.find(f => f.path === diag.file);
+    if (!file) {
+      addDiagnostic(`"${diag.file}" is not in the workspace.`, 'warning');
+      return;
+    }
+    setRevealLocation({ file: file.path, line: diag.line });
+    handleOpenFile(file.id);
+  };
+
+  const handleOpenPreviewLocation = (location: SourceLocation) => {
+    const file = files.find(f => f.path === location.file);
+    if (!file) return;
+    setRevealLocation({ file: file.path, line: location.line });
+    handleOpenFile(file.id);
+  };
+
+  const handleApplyDiagnosticFix = (diag: Diagnostic) => {
+    const file = files.find(f => f.path === diag.file);
+    if (!diag.fix || !file) return;
+    if (file.content !== diag.fix.content || hasUnsavedDraft(file)) {
+      addDiagnostic(`${file.path} has changed since it was checked; rebuild to refresh the fix.`, 'warning', { source: diag.source, file: file.path });
+      return;
+    }
+    const { range: [start, end], text } = diag.fix;
+    const content = file.content.substring(0, start) + text + file.content.substring(end);
+    proposeChanges(`${DIAGNOSTIC_SOURCE_LABELS[diag.source]} fix${diag.ruleId ? ` (${diag.ruleId})` : ''}`, [{ path: file.path, content }], 'The fix makes no change.', diag.source);
+  };
+
+  const handleExportDiagnostics = (list: Diagnostic[]) => {
+    // The file content a fix refers to would repeat whole files in the export
+    const exported = list.map(({ fix, ...diag }) => fix ? { ...diag, fix: { range: fix.range, text: fix.text } } : diag);
+    downloadBlob(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }), 'diagnostics.json');
+  };
+
+  const handleOpenFile = (id: string) => {
+    setOpenFileIds(prev => prev.includes(id) ? prev : [...prev, id]);
+    setActiveFileId(id);
+    navigate('/files');
+  };
+
+  const handleCloseFile = (id: string) => {
+    const file = files.find(f => f.id === id);
+    if (file && drafts[id] !== undefined && drafts[id] !== file.content && !confirm(`Discard unsaved changes to "${file.path}"?`)) return;
+    const remaining = openFileIds.filter(openId => openId !== id);
+    setOpenFileIds(remaining);
+    if (activeFileId === id) setActiveFileId(remaining[Math.max(0, openFileIds.indexOf(id) - 1)] ?? null);
+    setDrafts(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSaveFiles = (ids: string[]) => {
+    const saved = ids.filter(id => drafts[id] !== undefined);
+    if (saved.length === 0) return;
+    setFiles(prev => prev.map(f => saved.includes(f.id) ? withContent(f, drafts[f.id]) : f));
+    setDrafts(prev => {
+      const rest = { ...prev };
+      saved.forEach(id => delete rest[id]);
+      return rest;
+    });
+    const names = files.filter(f => saved.includes(f.id)).map(f => f.path).join(', ');
+    addDiagnostic(`Saved ${names}.`);
+    if (rebundleOnSave) rebuildPending.current = true;
+  };
+
   const handleRemoveFile = (id: string) => {
     setFiles(prev => prev.filter(f => f.id !== id));
+    setOpenFileIds(prev => prev.filter(openId => openId !== id));
+    if (activeFileId === id) setActiveFileId(null);
+    setDrafts(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
   };
 
+  // isProcessing also covers reading dropped files; only a build has a controller
+  const isBuilding = isProcessing && buildController.current !== null;
+
   return (
     <div className="min-h-screen pb-20 relative overflow-hidden font-sans">
       <div className="fixed top-0 left-0 w-full h-full pointer-events-none z-0">
@@ -449,24 +1127,47 @@ const BundleBlitz: React.FC = () => {
                   <h3 className="text-xs font-bold text-gray-300 uppercase tracking-widest flex items-center gap-2">
                     <Braces size={14} className="text-neon-cyan" /> Workspace Assets
                   </h3>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => handleFormat(null)} disabled={isFixing} title="Format workspace with Prettier" className="p-1.5 text-gray-400 hover:text-neon-cyan rounded-md transition-colors disabled:opacity-40">
+                      <AlignLeft size={14} />
+                    </button>
+                    <button onClick={() => handleFix(null)} disabled={isFixing} title="Fix all lint issues" className="p-1.5 text-gray-400 hover:text-neon-cyan rounded-md transition-colors disabled:opacity-40">
+                      <Wrench size={14} />
+                    </button>
+                    <button onClick={handleDownloadWorkspace} title="Download workspace (.zip)" className="p-1.5 text-gray-400 hover:text-neon-cyan rounded-md transition-colors">
+                      <Archive size={14} />
+                    </button>
+                  </div>
                 </div>
                 <div className="flex-1 overflow-y-auto custom-scrollbar">
-                  {files.map((file) => {
+                  <FileTree files={files} renderFile={(file) => {
                     const { Icon, color, bg } = getFileTypeInfo(file.name);
+                    const issueCount = issueCountsByFile.get(file.path);
                     return (
-                      <div key={file.id} className="group flex items-center justify-between p-3 border-b border-white/5 hover:bg-white/10 transition-all">
+                      <div title={file.path} onClick={() => handleOpenFile(file.id)} className={`group flex items-center justify-between p-3 border-b border-white/5 hover:bg-white/10 transition-all cursor-pointer ${file.id === activeFileId && location.pathname === '/files' ? 'bg-white/5' : ''}`}>
                         <div className="flex items-center gap-3 min-w-0">
                           <div className={`p-2 rounded-lg ${bg} ${color} shrink-0`}>
                             <Icon size={16} />
                           </div>
                           <span className="text-sm text-gray-200 font-medium truncate">{file.name}</span>
+                          {drafts[file.id] !== undefined && drafts[file.id] !== file.content && (
+                            <span title="Unsaved changes" className="w-2 h-2 rounded-full bg-neon-cyan shrink-0" />
+                          )}
                         </div>
-                        <button onClick={() => handleRemoveFile(file.id)} className="opacity-0 group-hover:opacity-100 p-1.5 hover:text-red-400 rounded-md">
+                        {issueCount && (
+                          <span
+                            title={`${issueCount.errors} error(s), ${issueCount.warnings} warning(s)`}
+                            className={`ml-auto mr-1 px-1.5 py-0.5 rounded-full text-[10px] font-bold font-mono shrink-0 ${issueCount.errors ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}
+                          >
+                            {issueCount.errors + issueCount.warnings}
+                          </span>
+                        )}
+                        <button onClick={e => { e.stopPropagation(); handleRemoveFile(file.id); }} className="opacity-0 group-hover:opacity-100 p-1.5 hover:text-red-400 rounded-md">
                           <Trash2 size={14} />
                         </button>
                       </div>
                     );
-                  })}
+                  }} />
                 </div>
               </div>
             )}
@@ -478,25 +1179,112 @@ const BundleBlitz: React.FC = () => {
                       <button onClick={()=>setBundleType('JS')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${bundleType==='JS'?'bg-white/10 text-white':'text-gray-400'}`}>JS</button>
                       <button onClick={()=>setBundleType('HTML')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${bundleType==='HTML'?'bg-orange-500/20 text-orange-400':'text-gray-400'}`}>HTML</button>
                     </div>
+                    <div className="flex bg-gray-800 rounded-lg p-1">
+                      <button onClick={()=>setBundleMode('development')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${bundleMode==='development'?'bg-white/10 text-white':'text-gray-400'}`}>Dev</button>
+                      <button onClick={()=>setBundleMode('production')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${bundleMode==='production'?'bg-neon-purple/20 text-neon-purple':'text-gray-400'}`}>Production</button>
+                    </div>
+                    {bundleType === 'JS' && (
+                      <div className="flex bg-gray-800 rounded-lg p-1">
+                        <button onClick={()=>setBundleFormat('iife')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${bundleFormat==='iife'?'bg-white/10 text-white':'text-gray-400'}`}>IIFE</button>
+                        <button onClick={()=>setBundleFormat('esm')} className={`flex-1 py-1.5 rounded-md text-xs font-bold ${bundleFormat==='esm'?'bg-white/10 text-white':'text-gray-400'}`}>ESM</button>
+                      </div>
+                    )}
+                    {scriptFiles.length > 0 && (
+                      <label className="flex flex-col gap-1.5">
+                        <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Entry Point</span>
+                        <select value={activeEntry || ''} onChange={e=>setEntryFile(e.target.value)} className="w-full bg-dark-bg border border-white/10 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-neon-cyan">
+                          {scriptFiles.map(f => <option key={f.id} value={getModuleId(f)}>{getModuleId(f)}</option>)}
+                        </select>
+                      </label>
+                    )}
                     <label className="flex items-center gap-3 cursor-pointer group">
                       <input type="checkbox" className="accent-neon-cyan" checked={enableTranspilation} onChange={e=>setEnableTranspilation(e.target.checked)} />
                       <span className="text-xs text-gray-300">Transpile (Babel)</span>
                     </label>
+                    {bundleMode === 'production' && (
+                      <label className="flex items-center gap-3 cursor-pointer group">
+                        <input type="checkbox" className="accent-neon-cyan" checked={preserveLicenseComments} onChange={e=>setPreserveLicenseComments(e.target.checked)} />
+                        <span className="text-xs text-gray-300">Preserve /*! license */ comments</span>
+                      </label>
+                    )}
+                    {files.some(f => isTypeScriptFile(f.name)) && (
+                      <label className="flex items-center gap-3 cursor-pointer group">
+                        <input type="checkbox" className="accent-neon-cyan" checked={enableTypeCheck} onChange={e=>setEnableTypeCheck(e.target.checked)} />
+                        <span className="text-xs text-gray-300">Type-check (tsc)</span>
+                      </label>
+                    )}
+                    {bundleType === 'JS' && (
+                      <label className="flex items-center gap-3 cursor-pointer group">
+                        <input type="checkbox" className="accent-neon-cyan" checked={enableSourceMaps} onChange={e=>setEnableSourceMaps(e.target.checked)} />
+                        <span className="text-xs text-gray-300">Inline Source Map</span>
+                      </label>
+                    )}
                  </div>
-                 <button onClick={handleBundle} disabled={isProcessing} className="w-full py-3 bg-gradient-to-r from-neon-cyan to-neon-purple rounded-lg text-dark-bg font-bold flex items-center justify-center gap-2 hover:brightness-110 active:scale-[0.98] transition-all disabled:opacity-50 shadow-[0_0_20px_rgba(0,250,255,0.2)]">
-                    {isProcessing ? <Activity className="animate-spin" size={18} /> : <Zap size={18} />} 
-                    Bundle Code
+                 <LintRulesEditor config={lintConfig} onChange={handleLintRulesChange} />
+                 <PackageSettings
+                   {...workspaceDependencies}
+                   registry={packageRegistry}
+                   overrides={packageOverrides}
+                   importMap={importMap}
+                   onRegistryChange={handlePackageRegistryChange}
+                   onOverridesChange={handlePackageOverridesChange}
+                 />
+                 <label className="flex items-center gap-3 cursor-pointer group mb-3">
+                   <input type="checkbox" className="accent-neon-cyan" checked={watchMode} onChange={e=>setWatchMode(e.target.checked)} />
+                   <span className="text-xs text-gray-300">Watch mode (rebuild on change)</span>
+                   {watchMode && <span className="ml-auto w-2 h-2 rounded-full bg-green-400 animate-pulse" title="Watching workspace" />}
+                 </label>
+                 <button onClick={handleBundle} className="w-full py-3 bg-gradient-to-r from-neon-cyan to-neon-purple rounded-lg text-dark-bg font-bold flex items-center justify-center gap-2 hover:brightness-110 active:scale-[0.98] transition-all disabled:opacity-50 shadow-[0_0_20px_rgba(0,250,255,0.2)]">
+                    {isBuilding ? <RotateCw size={18} /> : <Zap size={18} />} 
+                    {isBuilding ? 'Restart Build' : 'Bundle Code'}
                  </button>
+                 {isBuilding && (() => {
+                   const latest = buildProgress[buildProgress.length - 1];
+                   const transformed = buildProgress.filter(p => p.stage === 'transform');
+                   const isLinting = latest?.stage === 'lint';
+                   const stageFiles = isLinting ? buildProgress.filter(p => p.stage === 'lint' && p.file) : transformed;
+                   const stageTotal = isLinting ? scriptFiles.length : files.length;
+                   return (
+                     <div className="mt-3 space-y-2">
+                       <div className="flex items-center justify-between text-[10px] uppercase tracking-widest">
+                         <span className="text-neon-cyan font-bold">{latest ? BUILD_STAGE_LABELS[latest.stage] : 'Starting'}</span>
+                         <span className="text-gray-500 font-mono normal-case tracking-normal">{stageFiles.length} {isLinting ? 'file(s)' : 'module(s)'}</span>
+                         <button onClick={handleCancelBuild} className="text-gray-400 hover:text-red-400">Cancel</button>
+                       </div>
+                       <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                         <div className="h-full bg-gradient-to-r from-neon-cyan to-neon-purple transition-all" style={{ width: `${Math.min(100, (stageFiles.length / Math.max(1, stageTotal)) * 100)}%` }} />
+                       </div>
+                       <div className="max-h-28 overflow-y-auto custom-scrollbar font-mono text-[10px] space-y-0.5">
+                         {stageFiles.slice(-12).reverse().map((p, i) => (
+                           <div key={`${p.file}-${p.done}`} className={`flex items-center gap-2 truncate ${i === 0 ? 'text-gray-200' : 'text-gray-500'}`}>
+                             <Check size={10} className={p.cached ? 'text-gray-600' : 'text-green-400'} />
+                             <span className="truncate">{p.file}</span>
+                             {p.cached && <span className="ml-auto text-gray-600">cached</span>}
+                           </div>
+                         ))}
+                       </div>
+                     </div>
+                   );
+                 })()}
               </div>
             )}
-            <DiagnosticPanel diagnostics={diagnostics} onDismiss={id=>setDiagnostics(prev=>prev.filter(d=>d.id!==id))} />
+            <DiagnosticPanel
+              diagnostics={diagnostics}
+              onDismiss={id=>setDiagnostics(prev=>prev.filter(d=>d.id!==id))}
+              onClear={() => setDiagnostics([])}
+              onExport={handleExportDiagnostics}
+              onSelect={handleSelectDiagnostic}
+              onApplyFix={handleApplyDiagnosticFix}
+            />
           </div>
 
           <div className="lg:col-span-8 flex flex-col gap-6">
             <nav className="flex items-center gap-2 p-1 bg-dark-card border border-white/10 rounded-xl w-fit shadow-xl">
               {[
                 { path: '/editor', label: 'Code', icon: Code },
+                { path: '/files', label: 'Edit', icon: PencilLine },
                 { path: '/visualizer', label: 'Stats', icon: LayoutTemplate },
+                { path: '/history', label: 'History', icon: HistoryIcon },
                 { path: '/ai-insights', label: 'AI Insights', icon: Sparkles },
                 { path: '/playground', label: 'Playground', icon: Boxes },
                 { path: '/preview', label: 'Preview', icon: Play },
@@ -517,13 +1305,48 @@ const BundleBlitz: React.FC = () => {
                         <button onClick={handleCopy} className="p-2 bg-dark-bg/80 border border-white/10 rounded-lg text-gray-400 hover:text-neon-cyan transition-colors">
                           {isCopied ? <Check size={18} className="text-green-400" /> : <Copy size={18} />}
                         </button>
+                        <button onClick={handleDownload} title="Download bundle" className="p-2 bg-dark-bg/80 border border-white/10 rounded-lg text-gray-400 hover:text-neon-cyan transition-colors">
+                          <Download size={18} />
+                        </button>
                       </div>
                     )}
-                    <textarea value={bundledCode} readOnly className="flex-1 w-full h-full bg-dark-bg p-6 font-mono text-sm text-gray-300 focus:outline-none resize-none leading-relaxed custom-scrollbar" placeholder="// Bundle your workspace to see output..." />
+                    {bundledCode ? (
+                      <div className="h-[600px] flex">
+                        <AnnotatedCodeView code={bundledCode} issues={codeIssues} selectedIssueIndex={selectedIssueIndex} onSelectIssue={setSelectedIssueIndex} />
+                      </div>
+                    ) : (
+                      <div className="flex-1 w-full h-full bg-dark-bg p-6 font-mono text-sm text-gray-500">// Bundle your workspace to see output...</div>
+                    )}
                   </div>
                 } />
-                <Route path="/visualizer" element={<Visualizer files={files} />} />
-                <Route path="/playground" element={<Playground files={files} bundledCode={bundledCode} components={discoveredComponents} />} />
+                <Route path="/files" element={
+                  <CodeEditor
+                    files={files}
+                    openIds={openFileIds}
+                    activeId={activeFileId}
+                    drafts={drafts}
+                    rebundleOnSave={rebundleOnSave}
+                    onRebundleOnSaveChange={setRebundleOnSave}
+                    onActivate={setActiveFileId}
+                    onClose={handleCloseFile}
+                    onChange={(id, content) => setDrafts(prev => ({ ...prev, [id]: content }))}
+                    onSave={handleSaveFiles}
+                    issues={codeIssues}
+                    revealIssue={revealLocation}
+                    onFormat={isFixing ? undefined : id => handleFormat([id])}
+                    onFix={isFixing ? undefined : id => handleFix([id])}
+                  />
+                } />
+                <Route path="/visualizer" element={<Visualizer files={files} sizeStats={sizeStats} moduleSizes={moduleSizes} defaultEntry={activeEntry} />} />
+                <Route path="/history" element={
+                  <BundleHistory
+                    history={history}
+                    onRestore={handleRestoreSnapshot}
+                    onDelete={id => updateHistory(historyRef.current.filter(s => s.id !== id))}
+                    onClear={() => updateHistory([])}
+                  />
+                } />
+                <Route path="/playground" element={<Playground files={files} entry={activeEntry || undefined} components={discoveredComponents} />} />
                 <Route path="/ai-insights" element={
                   <div className="flex flex-col h-full">
                     <div className="p-6 bg-white/[0.02] border-b border-white/10">
@@ -575,13 +1398,19 @@ const BundleBlitz: React.FC = () => {
                         >
                           UI Registry ({discoveredComponents.length})
                         </button>
+                        <button 
+                          onClick={() => setActiveAiTab('refactor')}
+                          className={`pb-3 text-xs font-bold transition-all px-2 ${activeAiTab === 'refactor' ? 'text-neon-cyan border-b-2 border-neon-cyan' : 'text-gray-500 hover:text-white'}`}
+                        >
+                          Refactor
+                        </button>
                       </div>
                     </div>
 
                     <div className="flex-1 p-6 overflow-y-auto custom-scrollbar bg-dark-bg/20">
                       {activeAiTab === 'analysis' && (
                         <div className="space-y-8 h-full">
-                          {!aiAnalysis && lintIssues.length === 0 && !isAiLoading && !isLintLoading && (
+                          {!aiAnalysis && codeIssues.length === 0 && !isAiLoading && !isLintLoading && (
                             <div className="h-full flex flex-col items-center justify-center text-center gap-6 opacity-40 py-20">
                               <Sparkles size={64} className="text-gray-600 animate-pulse" />
                               <div className="space-y-2">
@@ -591,15 +1420,15 @@ const BundleBlitz: React.FC = () => {
                             </div>
                           )}
 
-                          {lintIssues.length > 0 && (
+                          {codeIssues.length > 0 && (
                             <section className="space-y-4">
                               <div className="flex items-center gap-2 mb-4">
                                 <Bug size={18} className="text-neon-cyan" />
                                 <h3 className="text-sm font-extrabold uppercase tracking-widest text-white">Linting Analysis</h3>
                               </div>
                               <div className="grid grid-cols-1 gap-3">
-                                {lintIssues.map((issue, idx) => (
-                                  <div key={idx} className={`p-4 rounded-xl border flex gap-4 transition-all hover:scale-[1.01] ${issue.severity === 'error' ? 'bg-red-500/5 border-red-500/20' : 'bg-yellow-500/5 border-yellow-500/20'}`}>
+                                {codeIssues.map((issue, idx) => (
+                                  <div key={idx} onClick={() => handleSelectIssue(idx)} title="Show in code" className={`p-4 rounded-xl border flex gap-4 cursor-pointer transition-all hover:scale-[1.01] ${issue.severity === 'error' ? 'bg-red-500/5 border-red-500/20' : 'bg-yellow-500/5 border-yellow-500/20'}`}>
                                     <div className="mt-1">
                                       {issue.severity === 'error' ? <AlertCircle size={18} className="text-red-500" /> : <AlertTriangle size={18} className="text-yellow-500" />}
                                     </div>
@@ -608,7 +1437,8 @@ const BundleBlitz: React.FC = () => {
                                         <span className={`text-[10px] font-bold uppercase tracking-widest ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
                                           {issue.severity}
                                         </span>
-                                        {issue.line && <span className="text-[10px] text-gray-500 font-mono bg-white/5 px-2 py-0.5 rounded">Line {issue.line}</span>}
+                                        {issue.line && <span className="text-[10px] text-gray-500 font-mono bg-white/5 px-2 py-0.5 rounded">{issue.file ? `${issue.file}:${issue.line}` : `Line ${issue.line}`}</span>}
+                                        <span className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">{issue.origin === 'eslint' ? `ESLint${issue.ruleId ? ` · ${issue.ruleId}` : ''}` : 'AI'}</span>
                                       </div>
                                       <p className="text-sm text-gray-200 leading-relaxed">{issue.message}</p>
                                       {issue.suggestion && (
@@ -641,6 +1471,10 @@ const BundleBlitz: React.FC = () => {
                         </div>
                       )}
 
+                      {activeAiTab === 'refactor' && (
+                        <RefactorPanel files={files} onRequest={handleAiRefactor} onApply={handleApplyRefactor} />
+                      )}
+
                       {activeAiTab === 'discover' && (
                         <div className="h-full">
                           {discoveredComponents.length > 0 ? (
@@ -689,12 +1523,35 @@ const BundleBlitz: React.FC = () => {
                     </div>
                   </div>
                 } />
-                <Route path="/preview" element={<iframe src={previewUrl || ''} className="w-full h-full bg-white border-none" />} />
+                <Route path="/preview" element={<PreviewPane src={previewUrl} locate={previewLocator} hotUpdate={hotUpdate} onReloadRequired={handlePreviewReload} onOpenLocation={handleOpenPreviewLocation} />} />
               </Routes>
             </div>
           </div>
         </div>
       </div>
+
+      {pendingChanges && (
+        <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+          <div className="bg-dark-card border border-white/10 rounded-2xl shadow-2xl w-full max-w-6xl max-h-full flex flex-col p-6 gap-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                <Wrench size={16} className="text-neon-cyan" /> Review {pendingChanges.title}
+              </h3>
+              <button onClick={() => setPendingChanges(null)} title="Discard changes" className="p-1.5 text-gray-400 hover:text-red-400 rounded-md">
+                <X size={16} />
+              </button>
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar flex flex-col">
+              <ProposedChanges
+                proposals={pendingChanges.proposals}
+                onApply={handleApplyChanges}
+                applyLabel={count => `Apply ${count} change(s)`}
+                defaultAccepted
+              />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
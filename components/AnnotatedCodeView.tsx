@@ -1,13 +1,25 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { LintIssue } from '../types';
 
 interface AnnotatedCodeViewProps {
   code: string;
   issues: LintIssue[];
   selectedIssueIndex: number | null;
+  onSelectIssue?: (index: number) => void;
 }
 
-export const AnnotatedCodeView: React.FC<AnnotatedCodeViewProps> = ({ code, issues, selectedIssueIndex }) => {
+const SEVERITY_RANK: Record<LintIssue['severity'], number> = { error: 3, warning: 2, info: 1 };
+
+const GUTTER_MARKER_CLASS: Record<LintIssue['severity'], string> = {
+  error: 'bg-red-500',
+  warning: 'bg-yellow-500',
+  info: 'bg-blue-500',
+};
+
+// Issues that point at a source file carry their bundle line separately; without one they are not in the bundle
+const issueLine = (issue: LintIssue) => issue.generatedLine ?? (issue.file ? undefined : issue.line);
+
+export const AnnotatedCodeView: React.FC<AnnotatedCodeViewProps> = ({ code, issues, selectedIssueIndex, onSelectIssue }) => {
   const [highlightedHtml, setHighlightedHtml] = useState<string>('');
   const containerRef = useRef<HTMLDivElement>(null);
   const LINE_HEIGHT = 24; // px, must match CSS
@@ -23,10 +35,12 @@ export const AnnotatedCodeView: React.FC<AnnotatedCodeViewProps> = ({ code, issu
         const Prism = PrismModule.default || PrismModule;
 
         if (mounted) {
+          // HTML bundles start with markup; everything else is highlighted as JavaScript
+          const isMarkup = code.trimStart().startsWith('<');
           // Safety check: ensure languages definition exists
-          const grammar = Prism.languages?.javascript || Prism.languages?.clike;
+          const grammar = (isMarkup && Prism.languages?.markup) || Prism.languages?.javascript || Prism.languages?.clike;
           if (grammar) {
-            const html = Prism.highlight(code, grammar, 'javascript');
+            const html = Prism.highlight(code, grammar, isMarkup ? 'markup' : 'javascript');
             setHighlightedHtml(html);
           } else {
             // Fallback if grammar not loaded
@@ -45,7 +59,7 @@ export const AnnotatedCodeView: React.FC<AnnotatedCodeViewProps> = ({ code, issu
   // Scroll to line when issue selected
   useEffect(() => {
     if (selectedIssueIndex !== null && issues[selectedIssueIndex] && containerRef.current) {
-      const line = issues[selectedIssueIndex].line;
+      const line = issueLine(issues[selectedIssueIndex]);
       if (line) {
         const top = (line - 1) * LINE_HEIGHT;
         containerRef.current.scrollTo({ top: top - 100, behavior: 'smooth' });
@@ -53,59 +67,97 @@ export const AnnotatedCodeView: React.FC<AnnotatedCodeViewProps> = ({ code, issu
     }
   }, [selectedIssueIndex, issues]);
 
+  // For each line, the index of its most severe issue; that one drives the gutter marker
+  const markers = useMemo(() => {
+    const byLine = new Map<number, number>();
+    issues.forEach((issue, idx) => {
+      const line = issueLine(issue);
+      if (!line) return;
+      const current = byLine.get(line);
+      if (current === undefined || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[issues[current].severity]) {
+        byLine.set(line, idx);
+      }
+    });
+    return byLine;
+  }, [issues]);
+
   const lineCount = code.split('\n').length;
+  const selectedIssue = selectedIssueIndex !== null ? issues[selectedIssueIndex] : undefined;
 
   return (
-    <div className="relative w-full h-full bg-[#1d1f21] overflow-hidden flex text-sm font-mono border border-white/10 rounded-lg">
-      {/* Line Numbers */}
-      <div className="flex-none w-12 bg-[#1d1f21] border-r border-white/10 text-right text-gray-600 select-none py-4">
-        {Array.from({ length: lineCount }).map((_, i) => (
-          <div key={i} style={{ height: LINE_HEIGHT }} className="px-2 leading-[24px]">
-            {i + 1}
-          </div>
-        ))}
-      </div>
-
-      {/* Code Area */}
+    <div className="relative w-full h-full bg-[#1d1f21] overflow-hidden flex flex-col text-sm font-mono border border-white/10 rounded-lg">
       <div ref={containerRef} className="flex-1 relative overflow-auto py-4 custom-scrollbar">
-        <div className="relative min-w-max">
-          
-          {/* Issue Highlights Layer (Background) */}
-          <div className="absolute top-0 left-0 w-full pointer-events-none">
-            {issues.map((issue, idx) => {
-              if (!issue.line) return null;
-              const isSelected = idx === selectedIssueIndex;
-              const colorClass = issue.severity === 'error' 
-                ? (isSelected ? 'bg-red-500/30 border-l-4 border-red-500' : 'bg-red-500/10')
-                : issue.severity === 'warning'
-                ? (isSelected ? 'bg-yellow-500/30 border-l-4 border-yellow-500' : 'bg-yellow-500/10')
-                : (isSelected ? 'bg-blue-500/30 border-l-4 border-blue-500' : 'bg-blue-500/10');
-
+        <div className="relative flex min-w-max">
+          {/* Line Numbers + severity markers; sticky so they stay put while scrolling sideways */}
+          <div className="sticky left-0 z-10 flex-none w-16 bg-[#1d1f21] border-r border-white/10 text-right text-gray-600 select-none">
+            {Array.from({ length: lineCount }).map((_, i) => {
+              const issueIndex = markers.get(i + 1);
+              const issue = issueIndex !== undefined ? issues[issueIndex] : undefined;
+              const messages = issue ? issues.filter(other => issueLine(other) === i + 1).map(other => `${other.severity}: ${other.message}`).join('\n') : undefined;
               return (
                 <div
-                  key={idx}
-                  className={`absolute w-full transition-colors duration-300 ${colorClass}`}
-                  style={{
-                    top: (issue.line - 1) * LINE_HEIGHT,
-                    height: LINE_HEIGHT,
-                  }}
-                />
+                  key={i}
+                  style={{ height: LINE_HEIGHT }}
+                  className={`flex items-center justify-end gap-1.5 px-2 leading-[24px] ${issue ? 'cursor-pointer hover:text-white' : ''}`}
+                  title={messages}
+                  onClick={issueIndex !== undefined ? () => onSelectIssue?.(issueIndex) : undefined}
+                >
+                  {issue && <span className={`w-2 h-2 rounded-full shrink-0 ${GUTTER_MARKER_CLASS[issue.severity]}`} />}
+                  {i + 1}
+                </div>
               );
             })}
           </div>
 
-          {/* Syntax Highlighted Code Layer (Foreground) */}
-          <pre 
-            className="m-0 p-0 bg-transparent !font-mono text-gray-300 pointer-events-none"
-            style={{ lineHeight: `${LINE_HEIGHT}px` }}
-          >
-            <code 
-              className="language-javascript"
-              dangerouslySetInnerHTML={{ __html: highlightedHtml }} 
-            />
-          </pre>
+          {/* Code Area */}
+          <div className="relative flex-1 pl-4">
+            {/* Issue Highlights Layer (Background) */}
+            <div className="absolute top-0 left-0 w-full pointer-events-none">
+              {issues.map((issue, idx) => {
+                const line = issueLine(issue);
+                if (!line) return null;
+                const isSelected = idx === selectedIssueIndex;
+                const colorClass = issue.severity === 'error'
+                  ? (isSelected ? 'bg-red-500/30 border-l-4 border-red-500' : 'bg-red-500/10')
+                  : issue.severity === 'warning'
+                  ? (isSelected ? 'bg-yellow-500/30 border-l-4 border-yellow-500' : 'bg-yellow-500/10')
+                  : (isSelected ? 'bg-blue-500/30 border-l-4 border-blue-500' : 'bg-blue-500/10');
+
+                return (
+                  <div
+                    key={idx}
+                    className={`absolute w-full transition-colors duration-300 ${colorClass}`}
+                    style={{
+                      top: (line - 1) * LINE_HEIGHT,
+                      height: LINE_HEIGHT,
+                    }}
+                  />
+                );
+              })}
+            </div>
+
+            {/* Syntax Highlighted Code Layer (Foreground) */}
+            <pre
+              className="m-0 p-0 bg-transparent !font-mono text-gray-300 pointer-events-none pr-6"
+              style={{ lineHeight: `${LINE_HEIGHT}px` }}
+            >
+              <code
+                className="language-javascript"
+                dangerouslySetInnerHTML={{ __html: highlightedHtml }}
+              />
+            </pre>
+          </div>
         </div>
       </div>
+
+      {selectedIssue && (
+        <div className={`flex-none px-4 py-2 border-t border-white/10 text-xs font-sans flex items-center gap-3 ${selectedIssue.severity === 'error' ? 'bg-red-500/10 text-red-300' : selectedIssue.severity === 'warning' ? 'bg-yellow-500/10 text-yellow-300' : 'bg-blue-500/10 text-blue-300'}`}>
+          <span className="font-bold uppercase tracking-widest text-[10px]">{selectedIssue.origin === 'eslint' ? 'ESLint' : 'AI'}</span>
+          {selectedIssue.file && <span className="font-mono text-gray-400">{selectedIssue.file}:{selectedIssue.line}</span>}
+          <span className="text-gray-200 truncate">{selectedIssue.message}</span>
+          {selectedIssue.ruleId && <span className="font-mono text-gray-500 ml-auto">{selectedIssue.ruleId}</span>}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
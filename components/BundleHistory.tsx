@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, RotateCcw, Trash2, Columns2, Rows3, GitCompare } from 'lucide-react';
+import { BundleSnapshot } from '../types';
+import { DiffView } from './DiffView';
+import { formatBytes } from '../services/sizeService';
+
+interface BundleHistoryProps {
+  history: BundleSnapshot[];
+  onRestore: (snapshot: BundleSnapshot) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+const describeSettings = ({ settings }: BundleSnapshot) => [
+  settings.bundleType === 'HTML' ? 'HTML' : settings.format.toUpperCase(),
+  settings.mode === 'production' ? 'Production' : 'Dev',
+  settings.transpile ? 'Babel' : 'No transpile',
+  settings.bundleType === 'JS' && settings.sourceMaps ? 'Source map' : null,
+].filter(Boolean) as string[];
+
+const formatDelta = (before: number, after: number) => {
+  const delta = after - before;
+  if (delta === 0) return '±0 B';
+  return `${delta > 0 ? '+' : '-'}${formatBytes(Math.abs(delta))}`;
+};
+
+export const BundleHistory: React.FC<BundleHistoryProps> = ({ history, onRestore, onDelete, onClear }) => {
+  // history is newest first; by default the latest build is compared against the one before it
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [layout, setLayout] = useState<'unified' | 'split'>('split');
+
+  useEffect(() => {
+    const ids = new Set(history.map(s => s.id));
+    if (!compareId || !ids.has(compareId)) setCompareId(history[0]?.id ?? null);
+    if (!baseId || !ids.has(baseId)) setBaseId(history[1]?.id ?? null);
+  }, [history]);
+
+  const base = history.find(s => s.id === baseId);
+  const compare = history.find(s => s.id === compareId);
+
+  if (history.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-center gap-6 opacity-40 py-20">
+        <Clock size={64} className="text-gray-600" />
+        <div className="space-y-2">
+          <h3 className="text-xl font-bold text-white">No Builds Yet</h3>
+          <p className="text-sm max-w-xs mx-auto">Every bundle you create is kept here so any two builds can be compared.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+      <div className="lg:w-72 shrink-0 border-b lg:border-b-0 lg:border-r border-white/10 flex flex-col max-h-[680px]">
+        <div className="p-4 border-b border-white/10 bg-white/5 flex justify-between items-center">
+          <h3 className="text-xs font-bold text-gray-300 uppercase tracking-widest flex items-center gap-2">
+            <Clock size={14} className="text-neon-cyan" /> Builds ({history.length})
+          </h3>
+          <button onClick={onClear} title="Clear history" className="p-1.5 text-gray-400 hover:text-red-400 rounded-md transition-colors">
+            <Trash2 size={14} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {history.map((snapshot, index) => (
+            <div key={snapshot.id} className={`group p-3 border-b border-white/5 transition-all ${snapshot.id === compareId || snapshot.id === baseId ? 'bg-white/5' : 'hover:bg-white/[0.03]'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-200 font-mono">
+                  #{history.length - index} · {new Date(snapshot.timestamp).toLocaleTimeString()}
+                </span>
+                <div className="flex gap-1">
+                  <button onClick={() => setBaseId(snapshot.id)} title="Compare from this build" className={`w-6 h-6 rounded text-[10px] font-bold ${snapshot.id === baseId ? 'bg-red-500/30 text-red-300' : 'bg-white/5 text-gray-500 hover:text-white'}`}>A</button>
+                  <button onClick={() => setCompareId(snapshot.id)} title="Compare to this build" className={`w-6 h-6 rounded text-[10px] font-bold ${snapshot.id === compareId ? 'bg-green-500/30 text-green-300' : 'bg-white/5 text-gray-500 hover:text-white'}`}>B</button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {describeSettings(snapshot).map(label => (
+                  <span key={label} className="text-[9px] bg-black/40 px-1.5 py-0.5 rounded text-gray-400 border border-white/5">{label}</span>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2 text-[10px] text-gray-500 font-mono">
+                <span>{formatBytes(snapshot.sizes?.after.raw ?? snapshot.stats.totalSize)} · {snapshot.stats.fileCount} file(s)</span>
+                <span className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => onRestore(snapshot)} title="Load this build into the Code view" className="p-1 hover:text-neon-cyan"><RotateCcw size={12} /></button>
+                  <button onClick={() => onDelete(snapshot.id)} title="Delete snapshot" className="p-1 hover:text-red-400"><Trash2 size={12} /></button>
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0 p-4 gap-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-bold text-white flex items-center gap-2">
+            <GitCompare size={16} className="text-neon-purple" />
+            {base && compare ? (
+              <span className="font-mono text-xs">
+                <span className="text-red-300">#{history.length - history.indexOf(base)}</span>
+                <span className="text-gray-500"> → </span>
+                <span className="text-green-300">#{history.length - history.indexOf(compare)}</span>
+              </span>
+            ) : (
+              <span className="text-xs text-gray-400">Pick builds A and B to compare</span>
+            )}
+          </h3>
+          <div className="flex bg-gray-800 rounded-lg p-1">
+            <button onClick={() => setLayout('split')} title="Side by side" className={`px-2 py-1 rounded-md ${layout === 'split' ? 'bg-white/10 text-white' : 'text-gray-400'}`}><Columns2 size={14} /></button>
+            <button onClick={() => setLayout('unified')} title="Unified" className={`px-2 py-1 rounded-md ${layout === 'unified' ? 'bg-white/10 text-white' : 'text-gray-400'}`}><Rows3 size={14} /></button>
+          </div>
+        </div>
+
+        {base && compare && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs font-mono">
+            {[
+              { label: 'Raw', before: base.sizes?.after.raw ?? base.stats.totalSize, after: compare.sizes?.after.raw ?? compare.stats.totalSize },
+              { label: 'Gzip', before: base.sizes?.after.gzip, after: compare.sizes?.after.gzip },
+              { label: 'Lines', before: base.stats.linesOfCode, after: compare.stats.linesOfCode, plain: true },
+              { label: 'Modules', before: base.modules.length, after: compare.modules.length, plain: true },
+            ].map(({ label, before, after, plain }) => (
+              <div key={label} className="bg-dark-bg/50 border border-white/10 rounded-lg p-2">
+                <div className="text-[10px] text-gray-500 uppercase tracking-widest">{label}</div>
+                {before === undefined || after === undefined ? (
+                  <div className="text-gray-600">—</div>
+                ) : (
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-neon-cyan">{plain ? after : formatBytes(after)}</span>
+                    <span className={after > before ? 'text-red-400' : after < before ? 'text-green-400' : 'text-gray-500'}>
+                      {plain ? `${after - before >= 0 ? '+' : ''}${after - before}` : formatDelta(before, after)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-[480px]">
+          {base && compare ? (
+            base.code === compare.code ? (
+              <div className="w-full h-full flex items-center justify-center text-gray-500 border border-white/10 rounded-lg">
+                These builds produced identical output
+              </div>
+            ) : (
+              <DiffView original={base.code} modified={compare.code} layout={layout} />
+            )
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-gray-500 border border-white/10 rounded-lg">
+              Build at least twice to compare snapshots
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
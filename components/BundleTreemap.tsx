@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ChevronRight } from 'lucide-react';
+import { ModuleSizeReport } from '../types';
+import { formatBytes } from '../services/sizeService';
+
+interface BundleTreemapProps {
+  modules: ModuleSizeReport[];
+}
+
+type SizeMetric = 'output' | 'gzip' | 'transpiled';
+
+interface TreeNode {
+  name: string;
+  path: string;
+  module?: ModuleSizeReport;
+  children?: TreeNode[];
+}
+
+const METRICS: { key: SizeMetric; label: string }[] = [
+  { key: 'output', label: 'Output' },
+  { key: 'gzip', label: 'Gzip' },
+  { key: 'transpiled', label: 'Transpiled' },
+];
+
+const RUNTIME_LABEL = '(bundler runtime)';
+
+const buildHierarchy = (modules: ModuleSizeReport[]): TreeNode => {
+  const root: TreeNode = { name: 'bundle', path: '', children: [] };
+  for (const module of modules) {
+    const segments = module.path ? module.path.split('/') : [RUNTIME_LABEL];
+    let node = root;
+    segments.forEach((segment, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      if (i === segments.length - 1) {
+        node.children!.push({ name: segment, path, module });
+        return;
+      }
+      let folder = node.children!.find(c => c.children && c.name === segment);
+      if (!folder) {
+        folder = { name: segment, path, children: [] };
+        node.children!.push(folder);
+      }
+      node = folder;
+    });
+  }
+  return root;
+};
+
+export const BundleTreemap: React.FC<BundleTreemapProps> = ({ modules }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [metric, setMetric] = useState<SizeMetric>('output');
+  const [focusPath, setFocusPath] = useState('');
+
+  const hierarchy = useMemo(() => buildHierarchy(modules), [modules]);
+
+  useEffect(() => {
+    setFocusPath('');
+  }, [modules]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const resizeObserver = new ResizeObserver(entries => {
+      for (let entry of entries) {
+        setContainerWidth(entry.contentRect.width);
+      }
+    });
+    resizeObserver.observe(containerRef.current);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!svgRef.current || containerWidth === 0) return;
+    const width = containerWidth;
+    const height = 360;
+
+    d3.select(svgRef.current).selectAll("*").remove();
+    const svg = d3.select(svgRef.current)
+      .attr("width", width)
+      .attr("height", height)
+      .attr("viewBox", [0, 0, width, height]);
+
+    const root = d3.hierarchy<TreeNode>(hierarchy)
+      .sum((d: TreeNode) => d.module ? d.module[metric] : 0)
+      .sort((a: any, b: any) => b.value - a.value);
+    const focus = root.descendants().find((d: any) => d.data.path === focusPath) || root;
+
+    d3.treemap<TreeNode>()
+      .tile(d3.treemapSquarify)
+      .size([width, height])
+      .paddingInner(2)
+      .round(true)(focus);
+
+    // Only the focused folder's direct children are drawn; folders are clicked to zoom in
+    const tiles = svg.selectAll("g")
+      .data((focus.children || []).filter((d: any) => d.value > 0))
+      .join("g")
+      .attr("transform", (d: any) => `translate(${d.x0},${d.y0})`)
+      .style("cursor", (d: any) => d.children ? "zoom-in" : "default")
+      .on("click", (_: any, d: any) => {
+        if (d.children) setFocusPath(d.data.path);
+      });
+
+    tiles.append("rect")
+      .attr("width", (d: any) => Math.max(0, d.x1 - d.x0))
+      .attr("height", (d: any) => Math.max(0, d.y1 - d.y0))
+      .attr("rx", 4)
+      .attr("fill", (d: any) => d.children ? "#b026ff" : d.data.module?.path ? "#00faff" : "#4b5563")
+      .attr("fill-opacity", (d: any) => d.children ? 0.35 : 0.25)
+      .attr("stroke", (d: any) => d.children ? "#b026ff" : "#00faff")
+      .attr("stroke-opacity", 0.6);
+
+    tiles.append("title")
+      .text((d: any) => {
+        if (d.children) return `${d.data.path}/\n${formatBytes(d.value)} ${metric}`;
+        const m: ModuleSizeReport = d.data.module;
+        return `${m.path || RUNTIME_LABEL}\nTranspiled: ${formatBytes(m.transpiled)}\nOutput: ${formatBytes(m.output)}\nGzip: ${formatBytes(m.gzip)}`;
+      });
+
+    tiles.append("text")
+      .attr("x", 6)
+      .attr("y", 16)
+      .attr("font-size", "11px")
+      .attr("font-weight", "bold")
+      .attr("fill", "#eaf7ff")
+      .text((d: any) => (d.x1 - d.x0 > 50 && d.y1 - d.y0 > 20) ? `${d.data.name}${d.children ? '/' : ''}` : '');
+
+    tiles.append("text")
+      .attr("x", 6)
+      .attr("y", 30)
+      .attr("font-size", "10px")
+      .attr("fill", "#9ca3af")
+      .text((d: any) => (d.x1 - d.x0 > 50 && d.y1 - d.y0 > 36) ? formatBytes(d.value) : '');
+  }, [hierarchy, metric, focusPath, containerWidth]);
+
+  const breadcrumbs = focusPath ? focusPath.split('/') : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-1 text-xs font-mono text-gray-400">
+          <button onClick={() => setFocusPath('')} className="hover:text-neon-cyan transition-colors">bundle</button>
+          {breadcrumbs.map((segment, i) => (
+            <React.Fragment key={i}>
+              <ChevronRight size={12} className="text-gray-600" />
+              <button onClick={() => setFocusPath(breadcrumbs.slice(0, i + 1).join('/'))} className="hover:text-neon-cyan transition-colors">{segment}</button>
+            </React.Fragment>
+          ))}
+        </div>
+        <div className="flex bg-gray-800 rounded-lg p-1">
+          {METRICS.map(m => (
+            <button key={m.key} onClick={() => setMetric(m.key)} className={`px-3 py-1 rounded-md text-[10px] font-bold ${metric === m.key ? 'bg-white/10 text-white' : 'text-gray-400'}`}>
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div ref={containerRef} className="w-full h-[360px] bg-dark-bg/50 rounded-lg overflow-hidden relative">
+        {modules.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-500">
+            Bundle the workspace to see what ends up in the output
+          </div>
+        )}
+        <svg ref={svgRef} className="w-full h-full"></svg>
+      </div>
+    </div>
+  );
+};
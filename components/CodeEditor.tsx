@@ -0,0 +1,377 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Save, Search, Replace, ChevronUp, ChevronDown, CaseSensitive, FileCode2, AlignLeft, Wrench } from 'lucide-react';
+import { FileEntry, LintIssue } from '../types';
+import { canFormat } from '../services/formatService';
+import { isScriptFile } from '../services/bundlerService';
+
+// An issue or diagnostic to scroll to; a new object scrolls again even when the location is the same
+export type RevealLocation = Pick<LintIssue, 'file' | 'line'>;
+
+interface CodeEditorProps {
+  files: FileEntry[];
+  openIds: string[];
+  activeId: string | null;
+  // Unsaved edits keyed by file id; a file is dirty while its draft differs from its content
+  drafts: Record<string, string>;
+  rebundleOnSave: boolean;
+  onRebundleOnSaveChange: (value: boolean) => void;
+  onActivate: (id: string) => void;
+  onClose: (id: string) => void;
+  onChange: (id: string, content: string) => void;
+  onSave: (ids: string[]) => void;
+  // Lint results for workspace files, matched to a file by path
+  issues?: LintIssue[];
+  // Scrolled into view when it belongs to the active file
+  revealIssue?: RevealLocation | null;
+  // Propose Prettier / ESLint fix changes for a saved file
+  onFormat?: (id: string) => void;
+  onFix?: (id: string) => void;
+}
+
+interface EditorPaneProps {
+  file: FileEntry;
+  value: string;
+  issues: LintIssue[];
+  revealIssue?: RevealLocation | null;
+  onChange: (content: string) => void;
+  onSave: () => void;
+}
+
+const LINE_HEIGHT = 20; // px, shared by the gutter, highlight layer and textarea
+const INDENT = '  ';
+
+const SEVERITY_RANK: Record<LintIssue['severity'], number> = { error: 3, warning: 2, info: 1 };
+
+const GUTTER_MARKER_CLASS: Record<LintIssue['severity'], string> = {
+  error: 'bg-red-500',
+  warning: 'bg-yellow-500',
+  info: 'bg-blue-500',
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const grammarFor = (Prism: any, fileName: string) => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'html': case 'htm': case 'svg': case 'xml':
+      return { grammar: Prism.languages?.markup, language: 'markup' };
+    case 'css': case 'scss': case 'less': case 'sass':
+      return { grammar: Prism.languages?.css, language: 'css' };
+    case 'js': case 'jsx': case 'mjs': case 'cjs': case 'ts': case 'tsx': case 'mts': case 'cts': case 'json':
+      return { grammar: Prism.languages?.javascript, language: 'javascript' };
+    default:
+      return { grammar: null, language: 'none' };
+  }
+};
+
+const findMatches = (text: string, query: string, caseSensitive: boolean) => {
+  if (!query) return [];
+  const haystack = caseSensitive ? text : text.toLowerCase();
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const matches: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+    matches.push(i);
+  }
+  return matches;
+};
+
+const EditorPane: React.FC<EditorPaneProps> = ({ file, value, issues, revealIssue, onChange, onSave }) => {
+  const [highlightedHtml, setHighlightedHtml] = useState('');
+  const [showFind, setShowFind] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    const highlight = async () => {
+      try {
+        // @ts-ignore
+        const PrismModule = await import('prismjs');
+        // @ts-ignore
+        const Prism = PrismModule.default || PrismModule;
+        const { grammar, language } = grammarFor(Prism, file.name);
+        if (mounted) setHighlightedHtml(grammar ? Prism.highlight(value, grammar, language) : escapeHtml(value));
+      } catch (e) {
+        if (mounted) setHighlightedHtml(escapeHtml(value));
+      }
+    };
+    highlight();
+    return () => { mounted = false; };
+  }, [value, file.name]);
+
+  const matches = useMemo(() => findMatches(value, query, caseSensitive), [value, query, caseSensitive]);
+
+  // Most severe issue per line, plus every message on that line for the tooltip
+  const issuesByLine = useMemo(() => {
+    const byLine = new Map<number, { severity: LintIssue['severity']; messages: string[] }>();
+    issues.forEach(issue => {
+      if (!issue.line) return;
+      const entry = byLine.get(issue.line) ?? { severity: issue.severity, messages: [] };
+      if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[entry.severity]) entry.severity = issue.severity;
+      entry.messages.push(`${issue.severity}: ${issue.message}${issue.ruleId ? ` (${issue.ruleId})` : ''}`);
+      byLine.set(issue.line, entry);
+    });
+    return byLine;
+  }, [issues]);
+
+  useEffect(() => {
+    if (revealIssue?.line && revealIssue.file === file.path) {
+      scrollRef.current?.scrollTo({ top: Math.max(0, (revealIssue.line - 1) * LINE_HEIGHT - 120), behavior: 'smooth' });
+    }
+  }, [revealIssue, file.path]);
+
+  useEffect(() => {
+    if (matchIndex >= matches.length) setMatchIndex(0);
+  }, [matches.length, matchIndex]);
+
+  const revealMatch = (index: number) => {
+    const start = matches[index];
+    if (start === undefined) return;
+    const line = value.substring(0, start).split('\n').length;
+    scrollRef.current?.scrollTo({ top: Math.max(0, (line - 1) * LINE_HEIGHT - 120) });
+  };
+
+  // Same text as the editor with matches wrapped in <mark>; everything else is transparent
+  const matchesHtml = useMemo(() => {
+    if (!showFind || matches.length === 0) return '';
+    let html = '';
+    let last = 0;
+    matches.forEach((start, i) => {
+      const tone = i === matchIndex ? 'bg-yellow-400/50 ring-1 ring-yellow-300' : 'bg-yellow-400/20';
+      html += escapeHtml(value.substring(last, start)) + `<mark class="${tone} text-transparent rounded-sm">${escapeHtml(value.substring(start, start + query.length))}</mark>`;
+      last = start + query.length;
+    });
+    return html + escapeHtml(value.substring(last));
+  }, [showFind, matches, matchIndex, value, query.length]);
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = (matchIndex + direction + matches.length) % matches.length;
+    setMatchIndex(next);
+    revealMatch(next);
+  };
+
+  const replaceCurrent = () => {
+    const start = matches[matchIndex];
+    if (start === undefined) return;
+    onChange(value.substring(0, start) + replacement + value.substring(start + query.length));
+  };
+
+  const replaceAll = () => {
+    if (matches.length === 0) return;
+    let result = '';
+    let last = 0;
+    for (const start of matches) {
+      result += value.substring(last, start) + replacement;
+      last = start + query.length;
+    }
+    onChange(result + value.substring(last));
+  };
+
+  const openFind = (withReplace: boolean) => {
+    setShowFind(true);
+    setShowReplace(withReplace);
+    const textarea = textareaRef.current;
+    if (textarea && textarea.selectionStart !== textarea.selectionEnd) {
+      setQuery(value.substring(textarea.selectionStart, textarea.selectionEnd));
+    }
+    setTimeout(() => findInputRef.current?.select(), 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const mod = e.metaKey || e.ctrlKey;
+    if (mod && e.key === 's') {
+      e.preventDefault();
+      onSave();
+    } else if (mod && e.key === 'f') {
+      e.preventDefault();
+      openFind(false);
+    } else if (mod && e.key === 'h') {
+      e.preventDefault();
+      openFind(true);
+    } else if (e.key === 'Escape' && showFind) {
+      setShowFind(false);
+      textareaRef.current?.focus();
+    }
+  };
+
+  const handleTextareaKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(value.substring(0, selectionStart) + INDENT + value.substring(selectionEnd));
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  const lineCount = value.split('\n').length;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col" onKeyDown={handleKeyDown}>
+      {showFind && (
+        <div className="flex-none flex flex-wrap items-center gap-2 px-3 py-2 bg-[#151718] border-b border-white/10 text-xs">
+          <button onClick={() => setShowReplace(!showReplace)} title="Toggle replace" className={`p-1 rounded ${showReplace ? 'text-neon-cyan' : 'text-gray-500 hover:text-white'}`}>
+            <Replace size={14} />
+          </button>
+          <div className="flex items-center gap-1 bg-dark-bg border border-white/10 rounded-md px-2">
+            <Search size={12} className="text-gray-500" />
+            <input
+              ref={findInputRef}
+              value={query}
+              onChange={e => { setQuery(e.target.value); setMatchIndex(0); }}
+              onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); stepMatch(e.shiftKey ? -1 : 1); } }}
+              placeholder="Find"
+              className="w-40 bg-transparent py-1 text-white focus:outline-none"
+            />
+            <button onClick={() => setCaseSensitive(!caseSensitive)} title="Match case" className={`p-0.5 rounded ${caseSensitive ? 'text-neon-cyan' : 'text-gray-500 hover:text-white'}`}>
+              <CaseSensitive size={14} />
+            </button>
+          </div>
+          <span className="text-gray-500 font-mono w-16">{matches.length ? `${matchIndex + 1}/${matches.length}` : 'No results'}</span>
+          <button onClick={() => stepMatch(-1)} title="Previous match (Shift+Enter)" className="p-1 text-gray-400 hover:text-white"><ChevronUp size={14} /></button>
+          <button onClick={() => stepMatch(1)} title="Next match (Enter)" className="p-1 text-gray-400 hover:text-white"><ChevronDown size={14} /></button>
+          {showReplace && (
+            <>
+              <input
+                value={replacement}
+                onChange={e => setReplacement(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); replaceCurrent(); } }}
+                placeholder="Replace"
+                className="w-40 bg-dark-bg border border-white/10 rounded-md px-2 py-1 text-white focus:outline-none"
+              />
+              <button onClick={replaceCurrent} disabled={!matches.length} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10 disabled:opacity-40">Replace</button>
+              <button onClick={replaceAll} disabled={!matches.length} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10 disabled:opacity-40">All</button>
+            </>
+          )}
+          <button onClick={() => setShowFind(false)} title="Close (Esc)" className="ml-auto p-1 text-gray-500 hover:text-white"><X size={14} /></button>
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-auto bg-[#1d1f21] font-mono text-[13px] custom-scrollbar">
+        <div className="relative flex min-w-max min-h-full py-3">
+          <div className="sticky left-0 z-10 flex-none w-12 bg-[#1d1f21] border-r border-white/10 text-right text-gray-600 select-none">
+            {Array.from({ length: lineCount }).map((_, i) => {
+              const lineIssues = issuesByLine.get(i + 1);
+              return (
+                <div key={i} style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }} className="flex items-center justify-end gap-1.5 px-2" title={lineIssues?.messages.join('\n')}>
+                  {lineIssues && <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${GUTTER_MARKER_CLASS[lineIssues.severity]}`} />}
+                  {i + 1}
+                </div>
+              );
+            })}
+          </div>
+          <div className="relative flex-1">
+            {matchesHtml && (
+              <pre className="absolute inset-0 m-0 pl-4 pr-8 bg-transparent !font-mono text-transparent pointer-events-none whitespace-pre" style={{ lineHeight: `${LINE_HEIGHT}px` }} aria-hidden>
+                <code dangerouslySetInnerHTML={{ __html: matchesHtml }} />
+              </pre>
+            )}
+            {/* The highlighted copy sits under a transparent textarea that receives the edits */}
+            <pre className="m-0 pl-4 pr-8 bg-transparent !font-mono text-gray-300 pointer-events-none whitespace-pre" style={{ lineHeight: `${LINE_HEIGHT}px` }} aria-hidden>
+              <code dangerouslySetInnerHTML={{ __html: highlightedHtml + '\n' }} />
+            </pre>
+            <textarea
+              ref={textareaRef}
+              value={value}
+              onChange={e => onChange(e.target.value)}
+              onKeyDown={handleTextareaKeyDown}
+              spellCheck={false}
+              wrap="off"
+              className="absolute inset-0 w-full h-full pl-4 pr-8 bg-transparent text-transparent caret-white resize-none overflow-hidden focus:outline-none whitespace-pre !font-mono selection:bg-neon-cyan/30"
+              style={{ lineHeight: `${LINE_HEIGHT}px` }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  files, openIds, activeId, drafts, rebundleOnSave, onRebundleOnSaveChange, onActivate, onClose, onChange, onSave, issues = [], revealIssue, onFormat, onFix,
+}) => {
+  const openFiles = openIds.map(id => files.find(f => f.id === id)).filter((f): f is FileEntry => !!f);
+  const active = openFiles.find(f => f.id === activeId);
+  const isDirty = (file: FileEntry) => drafts[file.id] !== undefined && drafts[file.id] !== file.content;
+  const dirtyIds = openFiles.filter(isDirty).map(f => f.id);
+
+  if (openFiles.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-center gap-6 opacity-40 py-20">
+        <FileCode2 size={64} className="text-gray-600" />
+        <div className="space-y-2">
+          <h3 className="text-xl font-bold text-white">No Open Files</h3>
+          <p className="text-sm max-w-xs mx-auto">Click a file in Workspace Assets to edit it here.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col h-[600px]">
+      <div className="flex-none flex items-stretch border-b border-white/10 bg-white/[0.02]">
+        <div className="flex-1 flex overflow-x-auto custom-scrollbar">
+          {openFiles.map(file => (
+            <div
+              key={file.id}
+              onClick={() => onActivate(file.id)}
+              onAuxClick={e => { if (e.button === 1) onClose(file.id); }}
+              title={file.path}
+              className={`group flex items-center gap-2 pl-4 pr-2 py-2 text-xs font-mono cursor-pointer border-r border-white/5 whitespace-nowrap ${file.id === activeId ? 'bg-[#1d1f21] text-white border-t-2 border-t-neon-cyan' : 'text-gray-400 hover:text-white'}`}
+            >
+              {file.name}
+              <button
+                onClick={e => { e.stopPropagation(); onClose(file.id); }}
+                className="w-4 h-4 flex items-center justify-center rounded hover:bg-white/10"
+                title={isDirty(file) ? 'Unsaved changes' : 'Close'}
+              >
+                {isDirty(file)
+                  ? <><span className="w-2 h-2 rounded-full bg-neon-cyan group-hover:hidden" /><X size={12} className="hidden group-hover:block" /></>
+                  : <X size={12} className="opacity-0 group-hover:opacity-100" />}
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex-none flex items-center gap-3 px-3">
+          <label className="flex items-center gap-2 cursor-pointer text-[10px] text-gray-400 uppercase tracking-widest">
+            <input type="checkbox" className="accent-neon-cyan" checked={rebundleOnSave} onChange={e => onRebundleOnSaveChange(e.target.checked)} />
+            Bundle on save
+          </label>
+          {onFormat && (
+            <button onClick={() => active && onFormat(active.id)} disabled={!active || isDirty(active) || !canFormat(active.name)} title={active && isDirty(active) ? 'Save before formatting' : 'Format with Prettier'} className="p-1.5 text-gray-400 hover:text-neon-cyan disabled:opacity-30 disabled:hover:text-gray-400">
+              <AlignLeft size={14} />
+            </button>
+          )}
+          {onFix && (
+            <button onClick={() => active && onFix(active.id)} disabled={!active || isDirty(active) || !isScriptFile(active.name)} title={active && isDirty(active) ? 'Save before fixing' : 'Fix lint issues'} className="p-1.5 text-gray-400 hover:text-neon-cyan disabled:opacity-30 disabled:hover:text-gray-400">
+              <Wrench size={14} />
+            </button>
+          )}
+          <button onClick={() => active && onSave([active.id])} disabled={!active || !isDirty(active)} title="Save (Ctrl+S)" className="p-1.5 text-gray-400 hover:text-neon-cyan disabled:opacity-30 disabled:hover:text-gray-400">
+            <Save size={14} />
+          </button>
+          {dirtyIds.length > 1 && (
+            <button onClick={() => onSave(dirtyIds)} className="text-[10px] font-bold text-neon-cyan hover:brightness-125">Save all ({dirtyIds.length})</button>
+          )}
+        </div>
+      </div>
+      {active && (
+        <EditorPane
+          key={active.id}
+          file={active}
+          value={drafts[active.id] ?? active.content}
+          issues={issues.filter(issue => issue.file === active.path)}
+          revealIssue={revealIssue}
+          onChange={content => onChange(active.id, content)}
+          onSave={() => onSave([active.id])}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Laptop, Maximize, Monitor, Moon, Plus, RotateCw, Smartphone, Sun, SunMoon, Tablet, X } from 'lucide-react';
+import {
+  ColorSchemeOverride, createViewport, CUSTOM_PRESET_ID, DEVICE_PRESETS, DeviceKind, findPreset, getViewportSize,
+  isResponsive, loadViewportSettings, MAX_VIEWPORTS, saveViewportSettings, Viewport, ViewportSettings, ZOOM_LEVELS,
+} from '../services/viewportService';
+
+interface DeviceViewportsProps {
+  src: string;
+  // Where the layout is remembered, so each surface keeps its own
+  scope: string;
+  title: string;
+  // Receives the first viewport's frame
+  frameRef?: React.Ref<HTMLIFrameElement>;
+  // Applied to every frame
+  sandbox?: string;
+  // Laid over the stage, e.g. badges or an error overlay
+  children?: React.ReactNode;
+}
+
+const KIND_ICONS: Record<DeviceKind, React.ElementType> = {
+  responsive: Maximize,
+  mobile: Smartphone,
+  tablet: Tablet,
+  desktop: Laptop,
+  custom: Monitor,
+};
+
+const COLOR_SCHEMES: { value: ColorSchemeOverride; label: string; icon: React.ElementType }[] = [
+  { value: 'system', label: 'Follow the system color scheme', icon: SunMoon },
+  { value: 'light', label: 'Force light (prefers-color-scheme: light)', icon: Sun },
+  { value: 'dark', label: 'Force dark (prefers-color-scheme: dark)', icon: Moon },
+];
+
+// Stage padding, the gap between viewports and the label above each, in CSS pixels
+const STAGE_PADDING = 16;
+const VIEWPORT_GAP = 16;
+const LABEL_HEIGHT = 24;
+// The least room a responsive viewport gets next to fixed ones
+const MIN_RESPONSIVE_WIDTH = 320;
+
+const viewportKind = (viewport: Viewport): DeviceKind =>
+  viewport.presetId === CUSTOM_PRESET_ID ? 'custom' : findPreset(viewport.presetId)?.kind ?? 'custom';
+
+const viewportLabel = (viewport: Viewport) =>
+  viewport.presetId === CUSTOM_PRESET_ID ? 'Custom' : findPreset(viewport.presetId)?.label ?? 'Custom';
+
+// An iframe's `prefers-color-scheme` follows the used `color-scheme` of the iframe element itself
+const frameColorScheme = (viewport: Viewport) => viewport.colorScheme === 'system' ? undefined : viewport.colorScheme;
+
+export const DeviceViewports: React.FC<DeviceViewportsProps> = ({ src, scope, title, frameRef, sandbox, children }) => {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [settings, setSettings] = useState<ViewportSettings>(() => loadViewportSettings(scope));
+  const [activeId, setActiveId] = useState(settings.viewports[0].id);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+
+  const active = settings.viewports.find(v => v.id === activeId) ?? settings.viewports[0];
+
+  useLayoutEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    saveViewportSettings(scope, settings);
+  }, [scope, settings]);
+
+  const updateActive = (changes: Partial<Viewport>) => {
+    setSettings(prev => ({ ...prev, viewports: prev.viewports.map(v => v.id === active.id ? { ...v, ...changes } : v) }));
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = findPreset(presetId);
+    updateActive(preset ? { presetId, width: preset.width, height: preset.height } : { presetId: CUSTOM_PRESET_ID });
+  };
+
+  const handleSizeChange = (dimension: 'width' | 'height', value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    // The inputs show the rotated size, so they edit the side that is currently on that axis
+    const side = active.rotated ? (dimension === 'width' ? 'height' : 'width') : dimension;
+    updateActive({ presetId: CUSTOM_PRESET_ID, [side]: Math.min(Math.round(value), 4096) });
+  };
+
+  const handleAddViewport = () => {
+    const presetId = ['iphone-15', 'ipad-mini', 'laptop'].find(id => !settings.viewports.some(v => v.presetId === id)) ?? 'iphone-15';
+    const viewport = createViewport(presetId);
+    setSettings(prev => ({ ...prev, viewports: [...prev.viewports, viewport] }));
+    setActiveId(viewport.id);
+  };
+
+  const handleRemoveViewport = (id: string) => {
+    const remaining = settings.viewports.filter(v => v.id !== id);
+    setSettings(prev => ({ ...prev, viewports: remaining }));
+    if (id === active.id) setActiveId(remaining[0].id);
+  };
+
+  const sizes = settings.viewports.map(getViewportSize);
+  const fixedSizes = sizes.filter((s): s is NonNullable<typeof s> => s !== null);
+  const responsiveCount = sizes.length - fixedSizes.length;
+  const fitScale = () => {
+    if (fixedSizes.length === 0 || stageSize.width === 0) return 1;
+    const width = stageSize.width - 2 * STAGE_PADDING - (sizes.length - 1) * VIEWPORT_GAP - responsiveCount * MIN_RESPONSIVE_WIDTH;
+    const height = stageSize.height - 2 * STAGE_PADDING - LABEL_HEIGHT;
+    const scale = Math.min(1, width / fixedSizes.reduce((sum, s) => sum + s.width, 0), height / Math.max(...fixedSizes.map(s => s.height)));
+    return Math.max(0.1, scale);
+  };
+  const scale = settings.zoom === 'fit' ? fitScale() : settings.zoom / 100;
+  // A lone responsive viewport is the plain full-size preview
+  const isPlain = settings.viewports.length === 1 && responsiveCount === 1;
+  const activeSize = getViewportSize(active);
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex-none flex flex-wrap items-center gap-2 px-3 py-1.5 border-b border-white/10 bg-dark-surface text-[11px] text-gray-300">
+        <div className="flex items-center gap-1">
+          {settings.viewports.map(viewport => {
+            const Icon = KIND_ICONS[viewportKind(viewport)];
+            return (
+              <div key={viewport.id} className={`group flex items-center rounded ${viewport.id === active.id ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}>
+                <button onClick={() => setActiveId(viewport.id)} className="flex items-center gap-1.5 px-2 py-1">
+                  <Icon size={12} className={viewport.rotated ? 'rotate-90' : ''} /> {viewportLabel(viewport)}
+                </button>
+                {settings.viewports.length > 1 && (
+                  <button onClick={() => handleRemoveViewport(viewport.id)} title="Remove viewport" className="pr-1.5 text-gray-500 hover:text-red-400">
+                    <X size={10} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {settings.viewports.length < MAX_VIEWPORTS && (
+            <button onClick={handleAddViewport} title="Show another viewport side by side" className="p-1 text-gray-500 hover:text-neon-cyan">
+              <Plus size={14} />
+            </button>
+          )}
+        </div>
+
+        <div className="h-4 w-px bg-white/10" />
+
+        <select
+          value={active.presetId}
+          onChange={e => handlePresetChange(e.target.value)}
+          className="bg-dark-bg border border-white/10 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-neon-cyan"
+        >
+          {DEVICE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}{p.width ? ` (${p.width}×${p.height})` : ''}</option>)}
+          <option value={CUSTOM_PRESET_ID}>Custom</option>
+        </select>
+        <div className="flex items-center gap-1 font-mono">
+          <input
+            type="number"
+            value={activeSize?.width ?? ''}
+            placeholder={isResponsive(active) ? 'auto' : undefined}
+            disabled={isResponsive(active)}
+            onChange={e => handleSizeChange('width', Number(e.target.value))}
+            className="w-16 bg-dark-bg border border-white/10 rounded px-1.5 py-0.5 text-[11px] text-white focus:outline-none focus:border-neon-cyan disabled:opacity-50"
+          />
+          <span className="text-gray-500">×</span>
+          <input
+            type="number"
+            value={activeSize?.height ?? ''}
+            placeholder={isResponsive(active) ? 'auto' : undefined}
+            disabled={isResponsive(active)}
+            onChange={e => handleSizeChange('height', Number(e.target.value))}
+            className="w-16 bg-dark-bg border border-white/10 rounded px-1.5 py-0.5 text-[11px] text-white focus:outline-none focus:border-neon-cyan disabled:opacity-50"
+          />
+        </div>
+        <button
+          onClick={() => updateActive({ rotated: !active.rotated })}
+          disabled={isResponsive(active)}
+          title="Rotate"
+          className={`p-1 rounded disabled:opacity-40 ${active.rotated ? 'text-neon-cyan' : 'text-gray-400 hover:text-white'}`}
+        >
+          <RotateCw size={13} />
+        </button>
+
+        <div className="h-4 w-px bg-white/10" />
+
+        <div className="flex items-center gap-0.5">
+          {COLOR_SCHEMES.map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => updateActive({ colorScheme: value })}
+              title={label}
+              className={`p-1 rounded ${active.colorScheme === value ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white'}`}
+            >
+              <Icon size={13} />
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={String(settings.zoom)}
+          onChange={e => setSettings(prev => ({ ...prev, zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) }))}
+          title="Zoom"
+          className="ml-auto bg-dark-bg border border-white/10 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-neon-cyan"
+        >
+          <option value="fit">Fit{settings.zoom === 'fit' && fixedSizes.length > 0 ? ` (${Math.round(scale * 100)}%)` : ''}</option>
+          {ZOOM_LEVELS.map(level => <option key={level} value={level}>{level}%</option>)}
+        </select>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        <div ref={stageRef} className={`absolute inset-0 ${isPlain ? '' : 'overflow-auto custom-scrollbar bg-dark-bg'}`}>
+          {isPlain ? (
+            <iframe
+              ref={frameRef}
+              src={src}
+              title={title}
+              sandbox={sandbox}
+              className={`w-full h-full border-none ${settings.viewports[0].colorScheme === 'dark' ? 'bg-black' : 'bg-white'}`}
+              style={{ colorScheme: frameColorScheme(settings.viewports[0]) }}
+            />
+          ) : (
+            <div className="flex items-start min-w-fit min-h-full" style={{ gap: VIEWPORT_GAP, padding: STAGE_PADDING }}>
+              {settings.viewports.map((viewport, index) => {
+                const size = sizes[index];
+                return (
+                  <div key={viewport.id} className={`flex flex-col ${size ? 'shrink-0' : 'flex-1 self-stretch'}`} style={size ? undefined : { minWidth: MIN_RESPONSIVE_WIDTH }}>
+                    <button
+                      onClick={() => setActiveId(viewport.id)}
+                      className={`flex items-center gap-1.5 text-[10px] font-mono truncate text-left ${viewport.id === active.id ? 'text-neon-cyan' : 'text-gray-500 hover:text-gray-300'}`}
+                      style={{ height: LABEL_HEIGHT }}
+                    >
+                      {viewportLabel(viewport)}{size && ` · ${size.width}×${size.height}`}{viewport.colorScheme !== 'system' && ` · ${viewport.colorScheme}`}
+                    </button>
+                    <div
+                      className={`relative overflow-hidden rounded-lg ring-1 shadow-2xl ${viewport.id === active.id ? 'ring-neon-cyan/50' : 'ring-white/15'} ${size ? '' : 'flex-1'}`}
+                      style={size ? { width: size.width * scale, height: size.height * scale } : undefined}
+                    >
+                      <iframe
+                        ref={index === 0 ? frameRef : undefined}
+                        src={src}
+                        title={`${title} (${viewportLabel(viewport)})`}
+                        sandbox={sandbox}
+                        className={`border-none ${size ? 'absolute left-0 top-0' : 'w-full h-full'} ${viewport.colorScheme === 'dark' ? 'bg-black' : 'bg-white'}`}
+                        style={{
+                          colorScheme: frameColorScheme(viewport),
+                          ...(size && { width: size.width, height: size.height, transform: `scale(${scale})`, transformOrigin: '0 0' }),
+                        }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -1,60 +1,183 @@
-import React, { useEffect, useRef } from 'react';
-import { Diagnostic } from '../types';
-import { AlertCircle, CheckCircle, Info, X } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Diagnostic, DiagnosticSource } from '../types';
+import { AlertCircle, CheckCircle, Download, FolderTree, Trash2, Wrench, X } from 'lucide-react';
 
 interface DiagnosticPanelProps {
   diagnostics: Diagnostic[];
   onDismiss: (id: string) => void;
+  onClear: () => void;
+  // Receives the diagnostics that pass the current filters
+  onExport: (diagnostics: Diagnostic[]) => void;
+  // Opens the diagnostic's file at its line
+  onSelect: (diagnostic: Diagnostic) => void;
+  onApplyFix: (diagnostic: Diagnostic) => void;
 }
 
-export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ diagnostics, onDismiss }) => {
+type Severity = Diagnostic['type'];
+
+const SEVERITIES: { type: Severity; label: string; active: string }[] = [
+  { type: 'error', label: 'Errors', active: 'bg-red-500/20 text-red-300 border-red-500/40' },
+  { type: 'warning', label: 'Warnings', active: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40' },
+  { type: 'info', label: 'Info', active: 'bg-neon-cyan/10 text-neon-cyan border-neon-cyan/40' },
+];
+
+export const DIAGNOSTIC_SOURCE_LABELS: Record<DiagnosticSource, string> = {
+  app: 'App',
+  import: 'Import',
+  bundler: 'Bundler',
+  babel: 'Babel',
+  eslint: 'ESLint',
+  typescript: 'TypeScript',
+  prettier: 'Prettier',
+  ai: 'AI',
+};
+
+const ALL_SOURCES = '';
+
+const formatDiagnosticLocation = (diag: Diagnostic) =>
+  diag.file ? `${diag.file}${diag.line ? `:${diag.line}${diag.column ? `:${diag.column}` : ''}` : ''}` : null;
+
+export const DiagnosticPanel: React.FC<DiagnosticPanelProps> = ({ diagnostics, onDismiss, onClear, onExport, onSelect, onApplyFix }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [shownSeverities, setShownSeverities] = useState<Record<Severity, boolean>>({ error: true, warning: true, info: true });
+  const [source, setSource] = useState<DiagnosticSource | typeof ALL_SOURCES>(ALL_SOURCES);
+  const [groupByFile, setGroupByFile] = useState(false);
+
+  const counts = useMemo(() => {
+    const bySeverity: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+    diagnostics.forEach(d => { bySeverity[d.type]++; });
+    return bySeverity;
+  }, [diagnostics]);
+
+  const sources = useMemo(() => Array.from(new Set(diagnostics.map(d => d.source))), [diagnostics]);
+
+  const visible = useMemo(
+    () => diagnostics.filter(d => shownSeverities[d.type] && (source === ALL_SOURCES || d.source === source)),
+    [diagnostics, shownSeverities, source]
+  );
+
+  // Files in order of their first diagnostic; diagnostics without a file go last
+  const groups = useMemo(() => {
+    const byFile = new Map<string, Diagnostic[]>();
+    visible.forEach(d => {
+      const key = d.file ?? '';
+      if (!byFile.has(key)) byFile.set(key, []);
+      byFile.get(key)!.push(d);
+    });
+    return Array.from(byFile).sort(([a], [b]) => Number(a === '') - Number(b === ''));
+  }, [visible]);
 
   useEffect(() => {
-    if (scrollRef.current) {
+    if (scrollRef.current && !groupByFile) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [diagnostics]);
+  }, [diagnostics, groupByFile]);
+
+  useEffect(() => {
+    if (source !== ALL_SOURCES && !sources.includes(source)) setSource(ALL_SOURCES);
+  }, [sources, source]);
 
   if (diagnostics.length === 0) return null;
 
+  const renderDiagnostic = (diag: Diagnostic) => {
+    const location = formatDiagnosticLocation(diag);
+    return (
+      <div
+        key={diag.id}
+        className={`
+          relative group flex items-start gap-3 p-3 rounded-lg border-l-4 transition-all hover:bg-white/5
+          ${diag.type === 'error' ? 'border-red-500 bg-red-500/10' :
+            diag.type === 'warning' ? 'border-yellow-500 bg-yellow-500/10' :
+            'border-neon-cyan bg-neon-cyan/10'}
+        `}
+      >
+        <div className="mt-0.5 shrink-0">
+          {diag.type === 'error' ? <AlertCircle size={16} className="text-red-400" /> :
+           diag.type === 'warning' ? <AlertCircle size={16} className="text-yellow-400" /> :
+           <CheckCircle size={16} className="text-neon-cyan" />}
+        </div>
+        <div className="flex-1 min-w-0 pr-4">
+          <p className="text-sm text-gray-200 font-medium leading-tight break-words">{diag.message}</p>
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mt-1 text-[10px] text-gray-500">
+            <span className="px-1.5 rounded bg-white/5 text-gray-400 font-bold uppercase tracking-wider">{DIAGNOSTIC_SOURCE_LABELS[diag.source]}</span>
+            {location && !(groupByFile && !diag.line) && (
+              <button onClick={() => onSelect(diag)} title="Open in editor" className="font-mono text-neon-cyan/80 hover:text-neon-cyan hover:underline truncate">
+                {groupByFile && diag.line ? `${diag.line}${diag.column ? `:${diag.column}` : ''}` : location}
+              </button>
+            )}
+            {diag.ruleId && <span className="font-mono">{diag.ruleId}</span>}
+            <span>{new Date(diag.timestamp).toLocaleTimeString()}</span>
+            {diag.fix && (
+              <button onClick={() => onApplyFix(diag)} title="Review and apply the suggested fix" className="flex items-center gap-1 font-bold text-green-300 hover:text-green-200">
+                <Wrench size={10} /> Fix
+              </button>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => onDismiss(diag.id)}
+          className="opacity-0 group-hover:opacity-100 absolute top-2 right-2 text-gray-500 hover:text-white transition-opacity"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="w-full bg-dark-card border border-white/10 rounded-xl overflow-hidden flex flex-col shadow-xl">
       <div className="px-4 py-3 bg-white/5 border-b border-white/10 flex justify-between items-center">
         <h3 className="text-sm font-bold text-gray-300 uppercase tracking-wider">System Diagnostics</h3>
-        <span className="text-xs text-gray-500">{diagnostics.length} events</span>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-gray-500 mr-2">
+            {visible.length === diagnostics.length ? `${diagnostics.length} events` : `${visible.length} of ${diagnostics.length} events`}
+          </span>
+          <button onClick={() => setGroupByFile(!groupByFile)} title="Group by file" className={`p-1.5 rounded-md transition-colors ${groupByFile ? 'text-neon-cyan bg-neon-cyan/10' : 'text-gray-400 hover:text-neon-cyan'}`}>
+            <FolderTree size={14} />
+          </button>
+          <button onClick={() => onExport(visible)} disabled={visible.length === 0} title="Export as JSON" className="p-1.5 text-gray-400 hover:text-neon-cyan rounded-md transition-colors disabled:opacity-40">
+            <Download size={14} />
+          </button>
+          <button onClick={onClear} title="Clear all" className="p-1.5 text-gray-400 hover:text-red-400 rounded-md transition-colors">
+            <Trash2 size={14} />
+          </button>
+        </div>
       </div>
-      <div ref={scrollRef} className="max-h-48 overflow-y-auto p-2 space-y-2 custom-scrollbar">
-        {diagnostics.map((diag) => (
-          <div 
-            key={diag.id} 
-            className={`
-              relative group flex items-start gap-3 p-3 rounded-lg border-l-4 transition-all hover:bg-white/5
-              ${diag.type === 'error' ? 'border-red-500 bg-red-500/10' : 
-                diag.type === 'warning' ? 'border-yellow-500 bg-yellow-500/10' : 
-                'border-neon-cyan bg-neon-cyan/10'}
-            `}
+      <div className="px-3 py-2 border-b border-white/10 flex flex-wrap items-center gap-2">
+        {SEVERITIES.map(({ type, label, active }) => (
+          <button
+            key={type}
+            onClick={() => setShownSeverities(prev => ({ ...prev, [type]: !prev[type] }))}
+            className={`px-2 py-0.5 rounded-full border text-[10px] font-bold transition-colors ${shownSeverities[type] ? active : 'border-white/10 text-gray-500'}`}
           >
-            <div className="mt-0.5 shrink-0">
-              {diag.type === 'error' ? <AlertCircle size={16} className="text-red-400" /> :
-               diag.type === 'warning' ? <AlertCircle size={16} className="text-yellow-400" /> :
-               <CheckCircle size={16} className="text-neon-cyan" />}
-            </div>
-            <div className="flex-1">
-              <p className="text-sm text-gray-200 font-medium leading-tight">{diag.message}</p>
-              <span className="text-[10px] text-gray-500 mt-1 block">
-                {new Date(diag.timestamp).toLocaleTimeString()}
-              </span>
-            </div>
-            <button 
-              onClick={() => onDismiss(diag.id)}
-              className="opacity-0 group-hover:opacity-100 absolute top-2 right-2 text-gray-500 hover:text-white transition-opacity"
-            >
-              <X size={14} />
-            </button>
-          </div>
+            {label} {counts[type]}
+          </button>
         ))}
+        <select
+          value={source}
+          onChange={e => setSource(e.target.value as DiagnosticSource | typeof ALL_SOURCES)}
+          className="ml-auto bg-dark-bg border border-white/10 rounded-lg px-2 py-0.5 text-[10px] text-gray-300 focus:outline-none focus:border-neon-cyan"
+        >
+          <option value={ALL_SOURCES}>All sources</option>
+          {sources.map(s => <option key={s} value={s}>{DIAGNOSTIC_SOURCE_LABELS[s]}</option>)}
+        </select>
+      </div>
+      <div ref={scrollRef} className="max-h-48 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+        {visible.length === 0 && <div className="text-xs text-gray-500 text-center py-3">No diagnostics match the filters.</div>}
+        {groupByFile
+          ? groups.map(([file, items]) => (
+            <div key={file} className="space-y-2">
+              <div className="flex items-center gap-2 px-1 pt-1 text-[10px] font-bold uppercase tracking-widest text-gray-500">
+                {file ? (
+                  <button onClick={() => onSelect(items[0])} title="Open in editor" className="font-mono normal-case tracking-normal text-gray-300 hover:text-neon-cyan truncate">{file}</button>
+                ) : 'General'}
+                <span className="text-gray-600">{items.length}</span>
+              </div>
+              {items.map(renderDiagnostic)}
+            </div>
+          ))
+          : visible.map(renderDiagnostic)}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
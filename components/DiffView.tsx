@@ -1,18 +1,51 @@
 import React, { useEffect, useState, useRef } from 'react';
+import { Check, X } from 'lucide-react';
+import { DiffPart, computeLineDiff, getHunkIds } from '../services/diffService';
 
 interface DiffViewProps {
   original: string;
   modified: string;
+  layout?: 'unified' | 'split';
+  // When set, each hunk of the unified layout gets accept / reject controls
+  hunkDecisions?: Record<number, boolean>;
+  onHunkDecision?: (hunk: number, accepted: boolean) => void;
 }
 
-interface DiffPart {
-  count?: number;
-  value: string;
-  added?: boolean;
-  removed?: boolean;
+interface SplitRow {
+  left?: { num: number; text: string; removed: boolean };
+  right?: { num: number; text: string; added: boolean };
 }
 
-export const DiffView: React.FC<DiffViewProps> = ({ original, modified }) => {
+const toLines = (part: DiffPart) => part.value.replace(/\n$/, '').split('\n');
+
+// Pairs each removed block with the added block that follows it so changed lines sit side by side
+const buildSplitRows = (parts: DiffPart[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let leftNum = 1;
+  let rightNum = 1;
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (!part.added && !part.removed) {
+      toLines(part).forEach(text => rows.push({
+        left: { num: leftNum++, text, removed: false },
+        right: { num: rightNum++, text, added: false },
+      }));
+      continue;
+    }
+    const removed = part.removed ? toLines(part) : [];
+    const addedPart = part.removed && parts[i + 1]?.added ? parts[++i] : part.added ? part : null;
+    const added = addedPart ? toLines(addedPart) : [];
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({
+        left: j < removed.length ? { num: leftNum++, text: removed[j], removed: true } : undefined,
+        right: j < added.length ? { num: rightNum++, text: added[j], added: true } : undefined,
+      });
+    }
+  }
+  return rows;
+};
+
+export const DiffView: React.FC<DiffViewProps> = ({ original, modified, layout = 'unified', hunkDecisions = {}, onHunkDecision }) => {
   const [diffParts, setDiffParts] = useState<DiffPart[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -21,15 +54,9 @@ export const DiffView: React.FC<DiffViewProps> = ({ original, modified }) => {
     const calculateDiff = async () => {
       try {
         setLoading(true);
-        // Dynamic import for diff library
-        // @ts-ignore
-        const Diff = await import('diff');
-        
-        if (mounted) {
-          // Use diffLines for a readable code comparison
-          const result = Diff.diffLines(original, modified);
-          setDiffParts(result);
-        }
+        // Use diffLines for a readable code comparison
+        const result = await computeLineDiff(original, modified);
+        if (mounted) setDiffParts(result);
       } catch (e) {
         console.error('Failed to load diff library', e);
       } finally {
@@ -49,9 +76,42 @@ export const DiffView: React.FC<DiffViewProps> = ({ original, modified }) => {
     );
   }
 
+  if (layout === 'split') {
+    return (
+      <div className="w-full h-full bg-[#1d1f21] overflow-auto font-mono text-xs md:text-sm border border-white/10 rounded-lg custom-scrollbar">
+        <div className="min-w-max">
+          {buildSplitRows(diffParts).map((row, index) => (
+            <div key={index} className="flex w-full hover:bg-white/5">
+              {[row.left, row.right].map((side, sideIndex) => {
+                const changed = side && ('removed' in side ? side.removed : side.added);
+                const tone = !side ? 'bg-white/[0.02]'
+                  : !changed ? 'text-gray-400'
+                  : sideIndex === 0 ? 'bg-red-500/20 text-red-300' : 'bg-green-500/20 text-green-200';
+                return (
+                  <div key={sideIndex} className={`flex w-1/2 min-w-[320px] ${sideIndex === 0 ? 'border-r border-white/10' : ''} ${tone}`}>
+                    <div className="flex-none w-10 md:w-12 text-right pr-2 text-gray-600 select-none border-r border-white/10 bg-[#151718]">
+                      {side?.num ?? ''}
+                    </div>
+                    <div className="flex-none w-6 text-center select-none opacity-50">
+                      {changed ? (sideIndex === 0 ? '-' : '+') : ''}
+                    </div>
+                    <div className="flex-1 whitespace-pre pr-4">
+                      {side?.text ?? ''}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   // Render unified diff
   let originalLineNumber = 1;
   let modifiedLineNumber = 1;
+  const hunkIds = getHunkIds(diffParts);
 
   return (
     <div className="w-full h-full bg-[#1d1f21] overflow-auto font-mono text-xs md:text-sm border border-white/10 rounded-lg custom-scrollbar">
@@ -61,8 +121,23 @@ export const DiffView: React.FC<DiffViewProps> = ({ original, modified }) => {
           const isAdded = part.added;
           const isRemoved = part.removed;
           const isUnchanged = !isAdded && !isRemoved;
+          const hunk = hunkIds[index];
+          const startsHunk = onHunkDecision && hunk !== null && hunk !== hunkIds[index - 1];
+          const decision = hunk !== null ? hunkDecisions[hunk] : undefined;
+
+          const hunkHeader = startsHunk && (
+            <div key={`hunk-${hunk}`} className="sticky left-0 flex items-center gap-2 px-3 py-1 bg-[#151718] border-y border-white/10 text-[10px] font-sans">
+              <span className="text-gray-500 uppercase tracking-widest font-bold">Change {hunk + 1}</span>
+              <button onClick={() => onHunkDecision(hunk, true)} className={`flex items-center gap-1 px-2 py-0.5 rounded ${decision === true ? 'bg-green-500/30 text-green-300' : 'text-gray-400 hover:text-green-300'}`}>
+                <Check size={10} /> Accept
+              </button>
+              <button onClick={() => onHunkDecision(hunk, false)} className={`flex items-center gap-1 px-2 py-0.5 rounded ${decision === false ? 'bg-red-500/30 text-red-300' : 'text-gray-400 hover:text-red-300'}`}>
+                <X size={10} /> Reject
+              </button>
+            </div>
+          );
 
-          return lines.map((line, lineIndex) => {
+          const rows = lines.map((line, lineIndex) => {
             // Determine line numbers to display
             const showOldNum = !isAdded;
             const showNewNum = !isRemoved;
@@ -73,7 +148,7 @@ export const DiffView: React.FC<DiffViewProps> = ({ original, modified }) => {
             return (
               <div 
                 key={`${index}-${lineIndex}`} 
-                className={`flex w-full hover:bg-white/5 ${
+                className={`flex w-full hover:bg-white/5 ${decision === false ? 'line-through decoration-white/20 opacity-40 ' : ''}${
                   isAdded ? 'bg-green-500/20 text-green-200' : 
                   isRemoved ? 'bg-red-500/20 text-red-300 opacity-60' : 
                   'text-gray-400'
@@ -101,6 +176,7 @@ export const DiffView: React.FC<DiffViewProps> = ({ original, modified }) => {
               </div>
             );
           });
+          return hunkHeader ? [hunkHeader, ...rows] : rows;
         })}
       </div>
     </div>
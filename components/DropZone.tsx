@@ -1,16 +1,20 @@
 import React, { useCallback, useState } from 'react';
 import { Upload, FileCode, FolderInput } from 'lucide-react';
+import { SelectedFile } from '../types';
 
 interface DropZoneProps {
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (files: SelectedFile[]) => void;
 }
 
-const IGNORE_LIST = [
+export const IGNORE_LIST = [
   'node_modules', '.git', '.svn', '.DS_Store', 'thumbs.db', 
   '.next', '.cache', '.vscode', '.idea', 'package-lock.json', 
-  'yarn.lock', 'pnpm-lock.yaml'
+  'yarn.lock', 'pnpm-lock.yaml', '__MACOSX'
 ];
 
+export const isIgnoredPath = (path: string) =>
+  path.split('/').some(segment => IGNORE_LIST.some(ignored => segment.toLowerCase() === ignored.toLowerCase()));
+
 export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
@@ -23,13 +27,17 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
     });
   };
 
-  const scanEntry = async (entry: any): Promise<File[]> => {
-    if (IGNORE_LIST.some(ignored => entry.name.toLowerCase() === ignored)) {
+  // fullPath is rooted at the drop ("/project/src/index.ts"); keep it relative
+  const toRelativePath = (path: string) => path.replace(/^\/+/, '');
+
+  const scanEntry = async (entry: any): Promise<SelectedFile[]> => {
+    if (isIgnoredPath(entry.name)) {
       return [];
     }
 
     if (entry.isFile) {
-      return [await getFile(entry)];
+      const file = await getFile(entry);
+      return [{ file, path: toRelativePath(entry.fullPath || file.name) }];
     } else if (entry.isDirectory) {
       const reader = entry.createReader();
       let allEntries: any[] = [];
@@ -46,7 +54,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
         batch = await readBatch();
       }
 
-      const files: File[] = [];
+      const files: SelectedFile[] = [];
       for (const childEntry of allEntries) {
         files.push(...(await scanEntry(childEntry)));
       }
@@ -72,7 +80,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
 
     try {
       const items = e.dataTransfer.items;
-      let resultFiles: File[] = [];
+      let resultFiles: SelectedFile[] = [];
 
       if (items && items.length > 0) {
         for (let i = 0; i < items.length; i++) {
@@ -83,12 +91,12 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
               resultFiles = [...resultFiles, ...await scanEntry(entry)];
             } else {
               const file = item.getAsFile();
-              if (file) resultFiles.push(file);
+              if (file) resultFiles.push({ file, path: file.name });
             }
           }
         }
       } else if (e.dataTransfer.files) {
-        resultFiles = Array.from(e.dataTransfer.files);
+        resultFiles = Array.from(e.dataTransfer.files).map((file: File) => ({ file, path: file.name }));
       }
 
       if (resultFiles.length > 0) {
@@ -103,7 +111,10 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFilesSelected(Array.from(e.target.files));
+      onFilesSelected(Array.from(e.target.files).map((file: File) => ({
+        file,
+        path: toRelativePath(file.webkitRelativePath || file.name),
+      })));
     }
   }, [onFilesSelected]);
 
@@ -144,7 +155,7 @@ export const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected }) => {
             {isScanning ? 'Scanning directory...' : isDragOver ? 'Drop folder here' : 'Drop project folder'}
           </h3>
           <p className="text-gray-400 text-sm max-w-xs mx-auto">
-            Drop your code workspace. We'll automatically filter out binary and junk files.
+            Drop your code workspace or a .zip/.tar.gz archive. We'll automatically filter out binary and junk files.
           </p>
         </div>
       </div>
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, Folder, FolderOpen } from 'lucide-react';
+import { FileEntry } from '../types';
+
+interface FileTreeProps {
+  files: FileEntry[];
+  renderFile: (file: FileEntry) => React.ReactNode;
+}
+
+interface FolderNode {
+  name: string;
+  path: string;
+  folders: FolderNode[];
+  files: FileEntry[];
+}
+
+export const buildFileTree = (files: FileEntry[]): FolderNode => {
+  const root: FolderNode = { name: '', path: '', folders: [], files: [] };
+  for (const file of files) {
+    const segments = file.path.split('/');
+    segments.pop();
+    let node = root;
+    for (const segment of segments) {
+      const path = node.path ? `${node.path}/${segment}` : segment;
+      let child = node.folders.find(f => f.name === segment);
+      if (!child) {
+        child = { name: segment, path, folders: [], files: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    }
+    node.files.push(file);
+  }
+
+  const sort = (node: FolderNode) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.files.sort((a, b) => a.name.localeCompare(b.name));
+    node.folders.forEach(sort);
+  };
+  sort(root);
+  return root;
+};
+
+export const FileTree: React.FC<FileTreeProps> = ({ files, renderFile }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const tree = useMemo(() => buildFileTree(files), [files]);
+
+  const toggle = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => (
+    <>
+      {node.folders.map(folder => {
+        const isOpen = !collapsed.has(folder.path);
+        return (
+          <div key={folder.path}>
+            <button
+              onClick={() => toggle(folder.path)}
+              style={{ paddingLeft: 12 + depth * 14 }}
+              className="w-full flex items-center gap-2 pr-3 py-2 border-b border-white/5 text-left hover:bg-white/10 transition-all"
+            >
+              <ChevronRight size={12} className={`text-gray-500 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+              {isOpen ? <FolderOpen size={14} className="text-neon-cyan" /> : <Folder size={14} className="text-neon-cyan" />}
+              <span className="text-xs text-gray-300 font-bold truncate">{folder.name}</span>
+            </button>
+            {isOpen && renderFolder(folder, depth + 1)}
+          </div>
+        );
+      })}
+      {node.files.map(file => (
+        <div key={file.id} style={{ paddingLeft: depth * 14 }}>
+          {renderFile(file)}
+        </div>
+      ))}
+    </>
+  );
+
+  return <>{renderFolder(tree, 0)}</>;
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { ChevronRight, FileCog, Plus, X } from 'lucide-react';
+import { LintConfig, LintPreset, LintRuleLevel, LintRuleSetting } from '../types';
+import { KNOWN_RULES, LINT_PRESETS, getRuleLevel, matchPreset, withRuleLevel } from '../services/lintConfigService';
+
+interface LintRulesEditorProps {
+  config: LintConfig;
+  // Only called for rules edited here; a workspace config is read-only
+  onChange: (rules: Record<string, LintRuleSetting>) => void;
+}
+
+const PRESET_LABELS: Record<LintPreset, string> = {
+  recommended: 'Recommended',
+  strict: 'Strict',
+  none: 'None',
+};
+
+const LEVEL_CLASS: Record<LintRuleLevel, string> = {
+  off: 'text-gray-500',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+export const LintRulesEditor: React.FC<LintRulesEditorProps> = ({ config, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newRule, setNewRule] = useState('');
+  const readOnly = config.source !== null;
+  const rules = Object.entries<LintRuleSetting>(config.rules).sort(([a], [b]) => a.localeCompare(b));
+  const activeCount = rules.filter(([, setting]) => getRuleLevel(setting) !== 'off').length;
+  const preset = readOnly ? null : matchPreset(config.rules);
+
+  const setLevel = (name: string, level: LintRuleLevel) => onChange({ ...config.rules, [name]: withRuleLevel(config.rules[name], level) });
+
+  const removeRule = (name: string) => {
+    const { [name]: _, ...rest } = config.rules;
+    onChange(rest);
+  };
+
+  const addRule = () => {
+    const name = newRule.trim();
+    if (!name || config.rules[name]) return;
+    onChange({ ...config.rules, [name]: 'warn' });
+    setNewRule('');
+  };
+
+  return (
+    <div className="border border-white/10 rounded-lg mb-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2 text-left">
+        <ChevronRight size={12} className={`text-gray-500 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Lint Rules</span>
+        <span className="ml-auto text-[10px] text-gray-500 font-mono">
+          {readOnly ? 'workspace' : preset ? PRESET_LABELS[preset].toLowerCase() : 'custom'} · {activeCount} on
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-white/10 p-2 space-y-2">
+          {readOnly ? (
+            <div className="flex items-start gap-2 text-[11px] text-gray-400">
+              <FileCog size={14} className="text-neon-cyan shrink-0 mt-0.5" />
+              <span>Using <span className="font-mono text-gray-200">{config.source}</span>. Edit that file to change the rules.</span>
+            </div>
+          ) : (
+            <div className="flex bg-gray-800 rounded-lg p-1">
+              {(Object.keys(LINT_PRESETS) as LintPreset[]).map(name => (
+                <button
+                  key={name}
+                  onClick={() => onChange(LINT_PRESETS[name])}
+                  className={`flex-1 py-1 rounded-md text-[11px] font-bold ${preset === name ? 'bg-white/10 text-white' : 'text-gray-400'}`}
+                >
+                  {PRESET_LABELS[name]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {config.skippedRules.length > 0 && (
+            <div className="text-[10px] text-yellow-400/80" title={config.skippedRules.join('\n')}>
+              {config.skippedRules.length} plugin or computed rule(s) cannot run here and are skipped.
+            </div>
+          )}
+
+          <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-0.5">
+            {rules.length === 0 && <div className="text-[11px] text-gray-500 py-2 text-center">No rules enabled</div>}
+            {rules.map(([name, setting]) => (
+              <div key={name} className="group flex items-center gap-2 text-[11px]">
+                <span className="font-mono text-gray-300 truncate flex-1" title={Array.isArray(setting) ? JSON.stringify(setting.slice(1)) : undefined}>
+                  {name}{Array.isArray(setting) && setting.length > 1 && <span className="text-gray-600"> +opts</span>}
+                </span>
+                {readOnly ? (
+                  <span className={`font-mono ${LEVEL_CLASS[getRuleLevel(setting)]}`}>{getRuleLevel(setting)}</span>
+                ) : (
+                  <>
+                    <select
+                      value={getRuleLevel(setting)}
+                      onChange={e => setLevel(name, e.target.value as LintRuleLevel)}
+                      className={`bg-dark-bg border border-white/10 rounded px-1 py-0.5 font-mono focus:outline-none focus:border-neon-cyan ${LEVEL_CLASS[getRuleLevel(setting)]}`}
+                    >
+                      <option value="off">off</option>
+                      <option value="warn">warn</option>
+                      <option value="error">error</option>
+                    </select>
+                    <button onClick={() => removeRule(name)} title="Remove rule" className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400">
+                      <X size={12} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {!readOnly && (
+            <div className="flex gap-2">
+              <input
+                value={newRule}
+                onChange={e => setNewRule(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') addRule(); }}
+                list="lint-rule-names"
+                placeholder="Add rule, e.g. semi"
+                className="flex-1 min-w-0 bg-dark-bg border border-white/10 rounded-lg px-2 py-1 text-[11px] font-mono text-white focus:outline-none focus:border-neon-cyan"
+              />
+              <datalist id="lint-rule-names">
+                {KNOWN_RULES.filter(name => !config.rules[name]).map(name => <option key={name} value={name} />)}
+              </datalist>
+              <button onClick={addRule} disabled={!newRule.trim()} className="p-1.5 rounded-lg text-neon-cyan hover:bg-neon-cyan/10 disabled:opacity-40">
+                <Plus size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, ChevronRight, PackageOpen, RotateCcw, Wifi } from 'lucide-react';
+import { checkPackageUrl, ImportMap, isValidPackageTemplate, PackageDependency, REGISTRY_PRESETS } from '../services/importMapService';
+
+interface PackageSettingsProps {
+  dependencies: PackageDependency[];
+  // Path of the package.json the dependencies came from, or null when there is none
+  source: string | null;
+  skipped: string[];
+  registry: string;
+  overrides: Record<string, string>;
+  importMap: ImportMap;
+  onRegistryChange: (registry: string) => void;
+  onOverridesChange: (overrides: Record<string, string>) => void;
+}
+
+const statusClass = (status: number | undefined, mapped: boolean) =>
+  !mapped ? 'bg-red-400' : status === undefined ? 'bg-gray-600' : status >= 200 && status < 400 ? 'bg-green-400' : 'bg-red-400';
+
+const statusLabel = (status: number | undefined, mapped: boolean) =>
+  !mapped ? 'Not a valid URL' : status === undefined ? 'Not checked' : status === 0 ? 'Unreachable' : `HTTP ${status}`;
+
+export const PackageSettings: React.FC<PackageSettingsProps> = ({
+  dependencies, source, skipped, registry, overrides, importMap, onRegistryChange, onOverridesChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [statuses, setStatuses] = useState<Record<string, number>>({});
+  const overrideCount = dependencies.filter(d => overrides[d.name]?.trim()).length;
+  // Packages whose registry or override does not make a URL are left out of the import map
+  const mapped = dependencies.filter(d => importMap.imports[d.name]);
+  const isRegistryValid = isValidPackageTemplate(registry);
+
+  // Results are for the URLs that were checked
+  useEffect(() => setStatuses({}), [importMap]);
+
+  const setOverride = (name: string, url: string) => {
+    const { [name]: _, ...rest } = overrides;
+    onOverridesChange(url ? { ...rest, [name]: url } : rest);
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const results = await Promise.all(mapped.map(async d => [d.name, await checkPackageUrl(importMap.imports[d.name])] as const));
+      setStatuses(Object.fromEntries(results));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="border border-white/10 rounded-lg mb-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 p-2 text-left">
+        <ChevronRight size={12} className={`text-gray-500 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Packages</span>
+        <span className="ml-auto text-[10px] text-gray-500 font-mono">
+          {dependencies.length} mapped{overrideCount > 0 && ` · ${overrideCount} overridden`}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-white/10 p-2 space-y-2">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-gray-500">Registry</span>
+              <div className="flex gap-1">
+                {REGISTRY_PRESETS.map(preset => (
+                  <button
+                    key={preset.label}
+                    onClick={() => onRegistryChange(preset.url)}
+                    className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${registry === preset.url ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <input
+              value={registry}
+              onChange={e => onRegistryChange(e.target.value)}
+              spellCheck={false}
+              className={`w-full bg-dark-bg border rounded-lg px-2 py-1 text-[11px] font-mono text-white focus:outline-none ${isRegistryValid ? 'border-white/10 focus:border-neon-cyan' : 'border-red-400/60'}`}
+            />
+            {!isRegistryValid && <p className="text-[10px] text-red-400">Not a valid URL; packages without an override are not mapped.</p>}
+            <p className="text-[10px] text-gray-500">
+              <span className="font-mono">{'{name}'}</span> and <span className="font-mono">{'{version}'}</span> are filled in per package. Browsers do not read package.json, so a folder of packages needs <span className="font-mono">{'{entry}'}</span>: the ES module file each package's package.json names, read from the registry. A relative path is served by this app, so a package folder next to it works offline.
+            </p>
+          </div>
+
+          {source === null ? (
+            <div className="flex items-start gap-2 text-[11px] text-gray-400">
+              <PackageOpen size={14} className="text-neon-cyan shrink-0 mt-0.5" />
+              <span>Drop a package.json with <span className="font-mono text-gray-200">dependencies</span> to map bare imports in the preview.</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span className="font-mono truncate">{source}</span>
+                <button onClick={handleCheck} disabled={isChecking || mapped.length === 0} title="Check that every package URL responds" className="flex items-center gap-1 font-bold text-neon-cyan hover:brightness-125 disabled:opacity-40">
+                  {isChecking ? <Activity size={10} className="animate-spin" /> : <Wifi size={10} />} Check
+                </button>
+              </div>
+              {skipped.length > 0 && (
+                <div className="text-[10px] text-yellow-400/80" title={skipped.join('\n')}>
+                  {skipped.length} dependency(ies) not from a registry (file:, git, workspace:) are not mapped.
+                </div>
+              )}
+              <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1.5">
+                {dependencies.map(dependency => (
+                  <div key={dependency.name} className="space-y-0.5">
+                    <div className="flex items-center gap-2 text-[11px]">
+                      <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${statusClass(statuses[dependency.name], !!importMap.imports[dependency.name])}`} title={statusLabel(statuses[dependency.name], !!importMap.imports[dependency.name])} />
+                      <span className="font-mono text-gray-300 truncate flex-1">{dependency.name}</span>
+                      <span className="font-mono text-gray-500 truncate">{dependency.version}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <input
+                        value={overrides[dependency.name] ?? ''}
+                        onChange={e => setOverride(dependency.name, e.target.value)}
+                        placeholder={importMap.imports[dependency.name]}
+                        title={importMap.imports[dependency.name]}
+                        spellCheck={false}
+                        className="flex-1 min-w-0 bg-dark-bg border border-white/10 rounded px-1.5 py-0.5 text-[10px] font-mono text-white placeholder-gray-600 focus:outline-none focus:border-neon-cyan"
+                      />
+                      {overrides[dependency.name] && (
+                        <button onClick={() => setOverride(dependency.name, '')} title="Use the registry" className="text-gray-500 hover:text-white">
+                          <RotateCcw size={10} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,27 +4,69 @@ import { ComponentMetadata, FileEntry } from '../types';
 import { 
   Box, Sliders, Play, Search, Info, ToggleLeft, 
   Type, Hash, Copy, RotateCcw, Braces, Layers,
-  Terminal, Monitor, Sparkles, Check
+  Terminal, Monitor, Sparkles, Check, AlertCircle
 } from 'lucide-react';
+import { DeviceViewports } from './DeviceViewports';
+import { isScriptFile } from '../services/bundlerService';
+import { bundleInWorker, isAbortError } from '../services/buildService';
+import { isPreviewStyle, previewStyleContent } from '../services/hotReloadService';
+import { EXPORT_REGISTRY_GLOBAL, loadPlaygroundRuntime } from '../services/playgroundRuntimeService';
 
 interface PlaygroundProps {
   files: FileEntry[];
-  bundledCode: string;
+  // The module the Playground bundle is built from; the workspace's default entry when unset
+  entry?: string;
   components: ComponentMetadata[];
 }
 
-export const Playground: React.FC<PlaygroundProps> = ({ files, bundledCode, components }) => {
+// Scripts run with an opaque origin: they cannot reach the app, its storage or its cookies
+const PLAYGROUND_SANDBOX = 'allow-scripts allow-forms allow-modals';
+
+const inlineScript = (code: string) => `<script>\n${code.replace(/<\/script/gi, '<\\/script')}\n</script>`;
+
+// `<` is escaped so a string cannot close the script element early
+const toScriptLiteral = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+export const Playground: React.FC<PlaygroundProps> = ({ files, entry, components }) => {
   const [selectedComponent, setSelectedComponent] = useState<ComponentMetadata | null>(components[0] || null);
   const [propValues, setPropValues] = useState<Record<string, any>>({});
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [runtime, setRuntime] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPlaygroundRuntime().then(setRuntime, err => setLoadError(`Could not load the React runtime: ${err.message}`));
+  }, []);
+
+  // The Playground's own build registers every module instead of running the entry, which
+  // would otherwise mount the whole app inside the renderer
+  useEffect(() => {
+    if (!files.some(f => isScriptFile(f.name))) return;
+    const controller = new AbortController();
+    bundleInWorker(files, { entry, format: 'iife', transpile: true, mode: 'development', exportRegistry: EXPORT_REGISTRY_GLOBAL }, controller.signal)
+      .then(result => {
+        setBundle(result.code);
+        setLoadError(null);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) setLoadError((err as Error).message);
+      });
+    return () => controller.abort();
+  }, [files, entry]);
+
+  // The registry is rebuilt as files change; stay on the same component when it is still there
+  useEffect(() => {
+    setSelectedComponent(prev => components.find(c => c.name === prev?.name) || components[0] || null);
+  }, [components]);
 
-  // Initialize props when component selection changes
+  // Initialize props when component selection changes, not when the same component is re-read
   useEffect(() => {
     if (selectedComponent) {
       resetProps();
     }
-  }, [selectedComponent]);
+  }, [selectedComponent?.name]);
 
   const resetProps = () => {
     if (!selectedComponent) return;
@@ -35,16 +77,15 @@ export const Playground: React.FC<PlaygroundProps> = ({ files, bundledCode, comp
     setPropValues(initial);
   };
 
-  const constructPlaygroundPreview = (component: ComponentMetadata, props: Record<string, any>) => {
+  const constructPlaygroundPreview = (component: ComponentMetadata, props: Record<string, any>, runtime: string, bundle: string) => {
+    const userStyles = files.filter(isPreviewStyle).map(f => `<style>\n${previewStyleContent(f)}\n</style>`).join('\n');
     const html = `<!DOCTYPE html>
 <html>
 <head>
-  <script src="https://unpkg.com/react@18/umd/react.development.js"></script>
-  <script src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-  <script src="https://cdn.tailwindcss.com"></script>
+  <meta charset="UTF-8">
   <style>
-    body { margin: 0; padding: 0; display: flex; items-center; justify-center; min-height: 100vh; background: #fff; }
-    #playground-root { padding: 40px; display: flex; align-items: center; justify-content: center; width: 100%; }
+    body { margin: 0; padding: 0; min-height: 100vh; background: #fff; font-family: system-ui, -apple-system, sans-serif; }
+    #playground-root { padding: 40px; display: flex; align-items: center; justify-content: center; box-sizing: border-box; min-height: 100vh; width: 100%; }
     /* Grid background for playground feel */
     body::before {
       content: ""; position: absolute; inset: 0;
@@ -52,25 +93,72 @@ export const Playground: React.FC<PlaygroundProps> = ({ files, bundledCode, comp
       background-size: 20px 20px; z-index: -1;
     }
   </style>
+  ${userStyles}
+  ${inlineScript(runtime)}
 </head>
 <body>
   <div id="playground-root"></div>
-  <script type="module">
-    // Injected Bundled Code
-    ${bundledCode}
-    
-    const Target = window["${component.name}"] || (typeof ${component.name} !== 'undefined' ? ${component.name} : null);
+  ${inlineScript(bundle)}
+  <script>
+    (function () {
+      var name = ${toScriptLiteral(component.name)};
+      var props = ${toScriptLiteral(props)};
+      var registry = window[${toScriptLiteral(EXPORT_REGISTRY_GLOBAL)}];
+      var container = document.getElementById('playground-root');
 
-    if (Target) {
-      const root = ReactDOM.createRoot(document.getElementById('playground-root'));
-      try {
-        root.render(React.createElement(Target, ${JSON.stringify(props)}));
-      } catch (e) {
-        document.getElementById('playground-root').innerHTML = '<div style="color:red; font-family:sans-serif; text-align:center"><h3>Render Error</h3><p>' + e.message + '</p></div>';
+      function Message(p) {
+        return React.createElement('div', { style: { color: p.color, fontFamily: 'sans-serif', textAlign: 'center', whiteSpace: 'pre-wrap' } },
+          React.createElement('h3', null, p.title),
+          React.createElement('p', null, p.text));
       }
-    } else {
-       document.getElementById('playground-root').innerHTML = '<div style="color:#666; font-family:sans-serif; text-align:center"><h3>Component Not Found</h3><p>Ensure <b>${component.name}</b> is defined in your code.</p></div>';
-    }
+
+      class Boundary extends React.Component {
+        constructor(p) { super(p); this.state = { error: null }; }
+        static getDerivedStateFromError(error) { return { error: error }; }
+        render() {
+          return this.state.error
+            ? React.createElement(Message, { title: 'Render Error', text: this.state.error.message, color: 'red' })
+            : this.props.children;
+        }
+      }
+
+      // memo() and forwardRef() return objects with no name of their own; theirs is on what they wrap
+      function componentName(component) {
+        if (!component) return undefined;
+        if (component.displayName) return component.displayName;
+        if (typeof component === 'function') return component.name;
+        return componentName(component.type || component.render);
+      }
+
+      // Looks through every module's exports; the entry goes last, since it usually mounts the whole app
+      function findComponent() {
+        var failures = [];
+        var ids = registry.modules.filter(function (id) { return id !== registry.entry; }).concat([registry.entry]);
+        for (var i = 0; i < ids.length; i++) {
+          var exports;
+          try {
+            exports = registry.load(ids[i]);
+          } catch (e) {
+            failures.push(ids[i] + ': ' + e.message);
+            continue;
+          }
+          if (!exports) continue;
+          if (typeof exports === 'function' && componentName(exports) === name) return { component: exports };
+          if (exports[name]) return { component: exports[name] };
+          if (componentName(exports.default) === name) return { component: exports.default };
+        }
+        return { failures: failures };
+      }
+
+      var root = ReactDOM.createRoot(container);
+      var found = registry ? findComponent() : { failures: [] };
+      if (found.component) {
+        root.render(React.createElement(Boundary, null, React.createElement(found.component, props)));
+      } else {
+        var text = 'Export ' + name + ' from a module reachable from the entry point.' + (found.failures.length ? '\\n\\nModules that failed to load:\\n' + found.failures.join('\\n') : '');
+        root.render(React.createElement(Message, { title: 'Component Not Found', text: text, color: '#666' }));
+      }
+    })();
   </script>
 </body>
 </html>`;
@@ -78,13 +166,13 @@ export const Playground: React.FC<PlaygroundProps> = ({ files, bundledCode, comp
   };
 
   useEffect(() => {
-    if (!selectedComponent) return;
-    const html = constructPlaygroundPreview(selectedComponent, propValues);
+    if (!selectedComponent || !runtime || !bundle) return;
+    const html = constructPlaygroundPreview(selectedComponent, propValues, runtime, bundle);
     const blob = new Blob([html], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     setPreviewUrl(url);
     return () => URL.revokeObjectURL(url);
-  }, [selectedComponent, propValues, bundledCode]);
+  }, [selectedComponent, propValues, runtime, bundle, files]);
 
   const handlePropChange = (name: string, value: any) => {
     setPropValues(prev => ({ ...prev, [name]: value }));
@@ -111,7 +199,7 @@ export const Playground: React.FC<PlaygroundProps> = ({ files, bundledCode, comp
           <Sparkles size={48} className="text-neon-cyan opacity-40 animate-pulse" />
         </div>
         <h3 className="text-xl font-bold text-white">No Components Detected</h3>
-        <p className="max-w-xs text-sm">Head to the <b>AI Insights</b> tab and click <b>Discover Components</b> to find elements you can interact with here.</p>
+        <p className="max-w-xs text-sm">Export a component whose name starts with a capital letter from a workspace script, and it will show up here with its props.</p>
       </div>
     );
   }
@@ -222,40 +310,42 @@ export const Playground: React.FC<PlaygroundProps> = ({ files, bundledCode, comp
 
       {/* Main Area: Preview */}
       <div className="flex-1 flex flex-col relative overflow-hidden bg-white shadow-inner">
-        <div className="absolute top-4 left-4 z-10 flex items-center gap-3 bg-dark-bg/90 backdrop-blur-md px-4 py-2 rounded-full border border-white/10 shadow-2xl">
-           <Play size={14} className="text-green-400 fill-current" />
-           <span className="text-[10px] font-extrabold text-white uppercase tracking-widest flex items-center gap-2">
-             <Monitor size={12} className="text-neon-cyan" />
-             Live Renderer
-           </span>
-        </div>
-
-        <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
-           <div className="flex items-center gap-1.5 bg-dark-card/90 border border-white/10 px-3 py-1.5 rounded-lg shadow-xl text-[10px] text-gray-400">
-             <Terminal size={12} className="text-neon-purple" />
-             <span className="font-mono text-neon-purple">{selectedComponent?.name}</span>
-           </div>
-        </div>
-        
         {previewUrl ? (
-          <iframe 
-            src={previewUrl}
-            className="w-full h-full border-none"
-            title="Playground Renderer"
-          />
+          <DeviceViewports src={previewUrl} scope="playground" title="Playground Renderer" sandbox={PLAYGROUND_SANDBOX}>
+            <div className="absolute top-4 left-4 z-10 flex items-center gap-3 bg-dark-bg/90 backdrop-blur-md px-4 py-2 rounded-full border border-white/10 shadow-2xl">
+               <Play size={14} className="text-green-400 fill-current" />
+               <span className="text-[10px] font-extrabold text-white uppercase tracking-widest flex items-center gap-2">
+                 <Monitor size={12} className="text-neon-cyan" />
+                 Live Renderer
+               </span>
+            </div>
+
+            <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+               <div className="flex items-center gap-1.5 bg-dark-card/90 border border-white/10 px-3 py-1.5 rounded-lg shadow-xl text-[10px] text-gray-400">
+                 <Terminal size={12} className="text-neon-purple" />
+                 <span className="font-mono text-neon-purple">{selectedComponent?.name}</span>
+               </div>
+            </div>
+
+            <div className="absolute bottom-4 left-4 z-10 right-4 flex justify-center">
+               <div className="bg-dark-card/80 backdrop-blur-md border border-white/10 px-4 py-2 rounded-full text-[10px] text-gray-500 flex items-center gap-3">
+                 <Info size={12} className="text-neon-cyan" />
+                 Interactive Sandbox: Props are synced in real-time to the isolated renderer.
+               </div>
+            </div>
+          </DeviceViewports>
+        ) : loadError ? (
+          <div className="w-full h-full flex flex-col items-center justify-center bg-dark-bg text-gray-500 gap-3 p-8 text-center">
+             <AlertCircle className="text-red-400" size={32} />
+             <span className="text-sm font-bold uppercase tracking-widest text-red-300">Playground Unavailable</span>
+             <p className="max-w-md text-xs font-mono text-gray-400 break-words">{loadError}</p>
+          </div>
         ) : (
           <div className="w-full h-full flex flex-col items-center justify-center bg-dark-bg text-gray-500 gap-4">
              <RotateCcw className="animate-spin text-neon-cyan" size={32} />
              <span className="text-sm font-bold uppercase tracking-widest animate-pulse">Initializing Playground</span>
           </div>
         )}
-
-        <div className="absolute bottom-4 left-4 z-10 right-4 flex justify-center">
-           <div className="bg-dark-card/80 backdrop-blur-md border border-white/10 px-4 py-2 rounded-full text-[10px] text-gray-500 flex items-center gap-3">
-             <Info size={12} className="text-neon-cyan" />
-             Interactive Sandbox: Props are synced in real-time to the isolated renderer.
-           </div>
-        </div>
       </div>
     </div>
   );
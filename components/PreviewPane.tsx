@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronRight, Info, Terminal, Trash2, Wifi, X } from 'lucide-react';
+import { ConsoleLevel, HotUpdate, isPreviewMessage, parseStackFrames, postHotUpdate, PreviewLocator, PreviewMessage } from '../services/previewBridgeService';
+import { mergeHotUpdates } from '../services/hotReloadService';
+import type { SourceLocation } from '../services/bundlerService';
+import { DeviceViewports } from './DeviceViewports';
+
+interface PreviewPaneProps {
+  src: string | null;
+  // Maps a position in the preview document to a workspace file; null while there is no preview
+  locate: PreviewLocator | null;
+  // Changes to apply to the running frames; a new id means a new update
+  hotUpdate: { id: number; update: HotUpdate } | null;
+  // A frame could not apply a hot update
+  onReloadRequired: () => void;
+  onOpenLocation: (location: SourceLocation) => void;
+}
+
+interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  text: string;
+  // Set for uncaught errors and rejections
+  error?: Extract<PreviewMessage, { type: 'error' }>;
+  timestamp: number;
+}
+
+type NetworkEntry = Extract<PreviewMessage, { type: 'network' }>;
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-gray-200',
+  debug: 'text-gray-400',
+  info: 'text-neon-cyan',
+  warn: 'text-yellow-300 bg-yellow-500/5',
+  error: 'text-red-300 bg-red-500/5',
+};
+
+const MAX_ENTRIES = 500;
+
+const formatBytes = (bytes?: number) => bytes === undefined ? '' : bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+
+export const PreviewPane: React.FC<PreviewPaneProps> = ({ src, locate, hotUpdate, onReloadRequired, onOpenLocation }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  // Updates applied since the document loaded, replayed into frames that load it afterwards
+  const appliedUpdates = useRef<HotUpdate[]>([]);
+  const consoleRef = useRef<HTMLDivElement>(null);
+  const nextId = useRef(0);
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [requests, setRequests] = useState<NetworkEntry[]>([]);
+  const [overlayError, setOverlayError] = useState<ConsoleEntry | null>(null);
+  const [tab, setTab] = useState<'console' | 'network'>('console');
+  const [isOpen, setIsOpen] = useState(true);
+  const [levels, setLevels] = useState<Record<ConsoleLevel, boolean>>({ log: true, debug: true, info: true, warn: true, error: true });
+
+  const getFrames = (): HTMLIFrameElement[] => stageRef.current ? Array.from(stageRef.current.querySelectorAll('iframe')) : [];
+
+  // A new document starts with a clean log
+  useEffect(() => {
+    setEntries([]);
+    setRequests([]);
+    setOverlayError(null);
+    appliedUpdates.current = [];
+  }, [src]);
+
+  useEffect(() => {
+    if (!hotUpdate) return;
+    appliedUpdates.current.push(hotUpdate.update);
+    getFrames().forEach(frame => frame.contentWindow && postHotUpdate(frame.contentWindow, hotUpdate.update));
+  }, [hotUpdate]);
+
+  // `load` does not bubble, so this listens while it passes down to the frame
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const handleLoad = (event: Event) => {
+      const frame = event.target as HTMLIFrameElement;
+      if (frame.tagName !== 'IFRAME' || !frame.contentWindow || appliedUpdates.current.length === 0) return;
+      postHotUpdate(frame.contentWindow, mergeHotUpdates(appliedUpdates.current));
+    };
+    stage.addEventListener('load', handleLoad, true);
+    return () => stage.removeEventListener('load', handleLoad, true);
+  }, []);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (!isPreviewMessage(event.data)) return;
+      if (event.data.type === 'hot-failed') {
+        if (getFrames().some(frame => frame.contentWindow === event.source)) onReloadRequired();
+        return;
+      }
+      // Every viewport runs the same page; the first one speaks for all of them
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const message = event.data;
+      if (message.type === 'network') {
+        setRequests(prev => {
+          const index = prev.findIndex(r => r.id === message.id);
+          if (index === -1) return [...prev, message].slice(-MAX_ENTRIES);
+          return prev.map((r, i) => i === index ? message : r);
+        });
+        return;
+      }
+      const entry: ConsoleEntry = message.type === 'console'
+        ? { id: nextId.current++, level: message.level, text: message.args.join(' '), timestamp: message.timestamp }
+        : { id: nextId.current++, level: 'error', text: `${message.kind === 'rejection' ? 'Uncaught (in promise) ' : 'Uncaught '}${message.name}: ${message.message}`, error: message, timestamp: message.timestamp };
+      setEntries(prev => [...prev, entry].slice(-MAX_ENTRIES));
+      if (entry.error) setOverlayError(entry);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onReloadRequired]);
+
+  useEffect(() => {
+    if (consoleRef.current) consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
+  }, [entries, requests, tab]);
+
+  const counts = useMemo(() => ({
+    errors: entries.filter(e => e.level === 'error').length,
+    warnings: entries.filter(e => e.level === 'warn').length,
+  }), [entries]);
+
+  const renderStack = (stack: string) => {
+    const frames = parseStackFrames(stack);
+    if (frames.length === 0) return null;
+    return (
+      <div className="mt-1 space-y-0.5">
+        {frames.map((frame, i) => {
+          const original = locate?.(frame.url, frame.line, frame.column);
+          return (
+            <div key={i} className="pl-4 text-[11px] font-mono text-gray-500 truncate">
+              at {frame.fn && <span className="text-gray-400">{frame.fn} </span>}
+              {original ? (
+                <button onClick={() => onOpenLocation(original)} className="text-neon-cyan hover:underline">
+                  {original.file}:{original.line}:{original.column}
+                </button>
+              ) : (
+                <span title={frame.raw}>{frame.url.startsWith('blob:') ? '(preview)' : frame.url}:{frame.line}:{frame.column}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const visibleEntries = entries.filter(e => levels[e.level]);
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div ref={stageRef} className="flex-1 min-h-0">
+        <DeviceViewports src={src || ''} scope="preview" title="Preview" frameRef={iframeRef}>
+          {overlayError?.error && (
+            <div className="absolute inset-0 bg-black/85 backdrop-blur-sm overflow-y-auto custom-scrollbar p-6">
+              <div className="max-w-3xl mx-auto border border-red-500/40 bg-red-950/60 rounded-xl p-5 shadow-2xl">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-red-400 mb-1">
+                      {overlayError.error.kind === 'rejection' ? 'Unhandled promise rejection' : 'Uncaught error'}
+                    </div>
+                    <h3 className="text-lg font-bold text-red-200 font-mono break-words">{overlayError.error.name}: {overlayError.error.message}</h3>
+                  </div>
+                  <button onClick={() => setOverlayError(null)} title="Dismiss" className="p-1.5 text-red-300 hover:text-white rounded-md shrink-0">
+                    <X size={16} />
+                  </button>
+                </div>
+                {renderStack(overlayError.error.stack) ?? <p className="mt-2 text-xs text-gray-400">No stack trace available.</p>}
+              </div>
+            </div>
+          )}
+        </DeviceViewports>
+      </div>
+
+      <div className={`flex-none border-t border-white/10 bg-dark-bg flex flex-col ${isOpen ? 'h-56' : ''}`}>
+        <div className="flex items-center gap-1 px-2 py-1 border-b border-white/10 text-[11px]">
+          <button onClick={() => setIsOpen(!isOpen)} className="p-1 text-gray-500 hover:text-white">
+            <ChevronRight size={12} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+          </button>
+          <button onClick={() => { setTab('console'); setIsOpen(true); }} className={`flex items-center gap-1.5 px-2 py-1 rounded ${tab === 'console' ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}>
+            <Terminal size={12} /> Console
+            {counts.errors > 0 && <span className="px-1 rounded bg-red-500/20 text-red-300 font-mono">{counts.errors}</span>}
+            {counts.warnings > 0 && <span className="px-1 rounded bg-yellow-500/20 text-yellow-300 font-mono">{counts.warnings}</span>}
+          </button>
+          <button onClick={() => { setTab('network'); setIsOpen(true); }} className={`flex items-center gap-1.5 px-2 py-1 rounded ${tab === 'network' ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}>
+            <Wifi size={12} /> Network
+            {requests.length > 0 && <span className="text-gray-500 font-mono">{requests.length}</span>}
+          </button>
+          {tab === 'console' && (
+            <div className="ml-2 flex gap-1">
+              {(Object.keys(levels) as ConsoleLevel[]).map(level => (
+                <button
+                  key={level}
+                  onClick={() => setLevels(prev => ({ ...prev, [level]: !prev[level] }))}
+                  className={`px-1.5 rounded font-mono ${levels[level] ? 'text-gray-200 bg-white/5' : 'text-gray-600'}`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => tab === 'console' ? setEntries([]) : setRequests([])}
+            title="Clear"
+            className="ml-auto p-1 text-gray-500 hover:text-red-400"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+
+        {isOpen && (
+          <div ref={consoleRef} className="flex-1 overflow-y-auto custom-scrollbar font-mono text-xs">
+            {tab === 'console' ? (
+              visibleEntries.length === 0
+                ? <div className="p-3 text-gray-600">Console output from the preview shows up here.</div>
+                : visibleEntries.map(entry => (
+                  <div key={entry.id} className={`flex gap-2 px-3 py-1 border-b border-white/5 ${LEVEL_STYLES[entry.level]}`}>
+                    <span className="shrink-0 mt-0.5">
+                      {entry.level === 'error' ? <AlertCircle size={12} /> : entry.level === 'warn' ? <AlertTriangle size={12} /> : entry.level === 'info' ? <Info size={12} /> : <span className="inline-block w-3" />}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <pre className="whitespace-pre-wrap break-words">{entry.text}</pre>
+                      {entry.error && renderStack(entry.error.stack)}
+                    </div>
+                    <span className="shrink-0 text-[10px] text-gray-600">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                  </div>
+                ))
+            ) : (
+              requests.length === 0
+                ? <div className="p-3 text-gray-600">Requests made by the preview (fetch, XHR, modules, stylesheets) show up here.</div>
+                : (
+                  <table className="w-full text-left">
+                    <thead className="text-[10px] uppercase tracking-widest text-gray-500 sticky top-0 bg-dark-bg">
+                      <tr>
+                        <th className="px-3 py-1 font-bold">Status</th>
+                        <th className="px-3 py-1 font-bold">Method</th>
+                        <th className="px-3 py-1 font-bold w-full">URL</th>
+                        <th className="px-3 py-1 font-bold">Type</th>
+                        <th className="px-3 py-1 font-bold text-right">Size</th>
+                        <th className="px-3 py-1 font-bold text-right">Time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {requests.map(request => {
+                        const failed = !!request.error || (request.status !== undefined && request.status >= 400);
+                        const pending = request.duration === undefined;
+                        return (
+                          <tr key={request.id} className={`border-b border-white/5 ${failed ? 'text-red-300' : 'text-gray-300'}`}>
+                            <td className="px-3 py-1" title={request.error}>{pending ? '…' : request.error ? 'failed' : request.status ?? '—'}</td>
+                            <td className="px-3 py-1">{request.method}</td>
+                            <td className="px-3 py-1 max-w-0 truncate" title={request.url}>{request.url}</td>
+                            <td className="px-3 py-1 text-gray-500">{request.initiator}</td>
+                            <td className="px-3 py-1 text-right text-gray-500 whitespace-nowrap">{formatBytes(request.size)}</td>
+                            <td className="px-3 py-1 text-right text-gray-500 whitespace-nowrap">{pending ? '' : `${Math.round(request.duration!)} ms`}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCheck, XCircle, FileCode2 } from 'lucide-react';
+import { RefactorProposal } from '../types';
+import { DiffView } from './DiffView';
+import { applyHunks, computeLineDiff, countHunks } from '../services/diffService';
+
+interface ProposedChangesProps {
+  proposals: RefactorProposal[];
+  // `original` is the content the proposal was diffed against
+  onApply: (changes: { path: string; original: string; content: string }[]) => void;
+  applyLabel: (acceptedCount: number) => string;
+  // Start with every hunk accepted instead of none
+  defaultAccepted?: boolean;
+}
+
+/**
+ * Per-file diffs of proposed edits, reviewed hunk by hunk. Only accepted hunks are applied.
+ */
+export const ProposedChanges: React.FC<ProposedChangesProps> = ({ proposals, onApply, applyLabel, defaultAccepted = false }) => {
+  const [activePath, setActivePath] = useState<string | null>(proposals[0]?.path ?? null);
+  const [hunkCounts, setHunkCounts] = useState<Record<string, number>>({});
+  // Per file, hunk index -> accepted; hunks without a decision are left unchanged
+  const [decisions, setDecisions] = useState<Record<string, Record<number, boolean>>>({});
+
+  const decideAll = (counts: Record<string, number>, accepted: boolean) => Object.fromEntries(proposals.map(p => [
+    p.path,
+    Object.fromEntries(Array.from({ length: counts[p.path] ?? 0 }, (_, i) => [i, accepted])),
+  ]));
+
+  useEffect(() => {
+    let mounted = true;
+    setActivePath(proposals[0]?.path ?? null);
+    setDecisions({});
+    Promise.all(proposals.map(async p => [p.path, countHunks(await computeLineDiff(p.original, p.modified))] as const))
+      .then(entries => {
+        if (!mounted) return;
+        const counts = Object.fromEntries(entries);
+        setHunkCounts(counts);
+        if (defaultAccepted) setDecisions(decideAll(counts, true));
+      });
+    return () => { mounted = false; };
+  }, [proposals]);
+
+  const acceptedCount = Object.values(decisions).reduce<number>((sum, d) => sum + Object.values(d).filter(Boolean).length, 0);
+
+  const handleApply = async () => {
+    const changes = await Promise.all(proposals.map(async p => {
+      const accepted = new Set(Object.entries(decisions[p.path] ?? {}).filter(([, ok]) => ok).map(([hunk]) => Number(hunk)));
+      if (accepted.size === 0) return null;
+      return { path: p.path, original: p.original, content: applyHunks(await computeLineDiff(p.original, p.modified), accepted) };
+    }));
+    onApply(changes.filter((c): c is { path: string; original: string; content: string } => c !== null));
+  };
+
+  const active = proposals.find(p => p.path === activePath);
+
+  return (
+    <div className="flex-1 flex flex-col gap-3 min-h-0">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {proposals.map(p => {
+            const fileDecisions = decisions[p.path] ?? {};
+            const accepted = Object.values(fileDecisions).filter(Boolean).length;
+            return (
+              <button key={p.path} onClick={() => setActivePath(p.path)} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-mono border transition-all ${p.path === activePath ? 'border-neon-purple/50 bg-neon-purple/10 text-white' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+                <FileCode2 size={12} />
+                {p.path}
+                <span className="text-[10px] text-gray-500">{accepted}/{hunkCounts[p.path] ?? '…'}</span>
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setDecisions(decideAll(hunkCounts, true))} className="px-3 py-1.5 rounded-lg text-xs font-bold text-green-300 hover:bg-green-500/10 flex items-center gap-1"><CheckCheck size={14} /> Accept all</button>
+          <button onClick={() => setDecisions(decideAll(hunkCounts, false))} className="px-3 py-1.5 rounded-lg text-xs font-bold text-red-300 hover:bg-red-500/10 flex items-center gap-1"><XCircle size={14} /> Reject all</button>
+          <button onClick={handleApply} disabled={acceptedCount === 0} className="px-4 py-1.5 rounded-lg text-xs font-bold bg-gradient-to-r from-neon-cyan to-neon-purple text-dark-bg disabled:opacity-40">
+            {applyLabel(acceptedCount)}
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-[420px]">
+        {active && (
+          <DiffView
+            original={active.original}
+            modified={active.modified}
+            hunkDecisions={decisions[active.path]}
+            onHunkDecision={(hunk, accepted) => setDecisions(prev => ({
+              ...prev,
+              [active.path]: { ...prev[active.path], [hunk]: accepted },
+            }))}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Wand2 } from 'lucide-react';
+import { FileEntry, RefactorProposal } from '../types';
+import { ProposedChanges } from './ProposedChanges';
+
+interface RefactorPanelProps {
+  files: FileEntry[];
+  // scope is a file path, or null for the whole workspace
+  onRequest: (instruction: string, scope: string | null) => Promise<RefactorProposal[]>;
+  onApply: (changes: { path: string; original: string; content: string }[]) => void;
+}
+
+const WORKSPACE_SCOPE = '';
+
+export const RefactorPanel: React.FC<RefactorPanelProps> = ({ files, onRequest, onApply }) => {
+  const [instruction, setInstruction] = useState('');
+  const [scope, setScope] = useState(WORKSPACE_SCOPE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [proposals, setProposals] = useState<RefactorProposal[]>([]);
+
+  useEffect(() => {
+    if (scope && !files.some(f => f.path === scope)) setScope(WORKSPACE_SCOPE);
+  }, [files, scope]);
+
+  const handleSubmit = async () => {
+    if (!instruction.trim()) return;
+    setIsLoading(true);
+    try {
+      const result = await onRequest(instruction.trim(), scope || null);
+      setProposals(result);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 h-full flex flex-col">
+      <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+        <textarea
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(); }}
+          placeholder="e.g. Convert class components to hooks, or extract the fetch logic into a helper"
+          className="w-full h-20 bg-dark-bg border border-white/10 rounded-lg p-3 text-sm text-white focus:outline-none focus:border-neon-purple resize-none custom-scrollbar"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={scope} onChange={e => setScope(e.target.value)} className="flex-1 min-w-[180px] bg-dark-bg border border-white/10 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-neon-purple">
+            <option value={WORKSPACE_SCOPE}>Whole workspace ({files.length} file(s))</option>
+            {files.map(f => <option key={f.id} value={f.path}>{f.path}</option>)}
+          </select>
+          <button
+            onClick={handleSubmit}
+            disabled={isLoading || !instruction.trim() || files.length === 0}
+            className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${isLoading ? 'bg-white/5 text-gray-500' : 'bg-neon-purple/20 text-neon-purple border border-neon-purple/30 hover:bg-neon-purple hover:text-white disabled:opacity-40'}`}
+          >
+            {isLoading ? <Activity size={14} className="animate-spin" /> : <Wand2 size={14} />}
+            Refactor
+          </button>
+        </div>
+      </div>
+
+      {proposals.length > 0 ? (
+        <ProposedChanges
+          proposals={proposals}
+          onApply={changes => {
+            onApply(changes);
+            setProposals([]);
+          }}
+          applyLabel={count => `Apply ${count} change(s) & rebuild`}
+        />
+      ) : (
+        !isLoading && (
+          <div className="flex-1 flex flex-col items-center justify-center text-center gap-6 opacity-40 py-20">
+            <Wand2 size={64} className="text-gray-600" />
+            <div className="space-y-2">
+              <h3 className="text-xl font-bold text-white">Nothing to Review</h3>
+              <p className="text-sm max-w-sm mx-auto">Describe a refactor above. Proposed edits show up here as a diff you can accept or reject change by change.</p>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,64 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { FileEntry } from '../types';
+import { FileEntry, BundleSizeComparison, SizeReport, ModuleSizeReport, DependencyGraph } from '../types';
+import { formatBytes } from '../services/sizeService';
+import { buildDependencyGraph, findReachable } from '../services/dependencyGraphService';
+import { BundleTreemap } from './BundleTreemap';
 
 interface VisualizerProps {
   files: FileEntry[];
+  sizeStats?: BundleSizeComparison | null;
+  moduleSizes?: ModuleSizeReport[];
+  defaultEntry?: string | null;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ files }) => {
+interface GraphNode {
+  id: string;
+  label: string;
+  kind: 'module' | 'unresolved';
+  size: number;
+}
+
+interface GraphLink {
+  source: string;
+  target: string;
+  kind: 'import' | 'cycle' | 'unresolved';
+}
+
+const NODE_COLORS = {
+  entry: '#ff00ff',
+  module: '#00faff',
+  cycle: '#fb923c',
+  orphan: '#facc15',
+  unresolved: '#f87171',
+};
+
+const LINK_COLORS: Record<GraphLink['kind'], string> = {
+  import: '#4b5563',
+  cycle: '#fb923c',
+  unresolved: '#f87171',
+};
+
+const LEGEND = [
+  { color: NODE_COLORS.entry, label: 'Entry' },
+  { color: NODE_COLORS.module, label: 'Module' },
+  { color: NODE_COLORS.cycle, label: 'Circular' },
+  { color: NODE_COLORS.orphan, label: 'Orphan' },
+  { color: NODE_COLORS.unresolved, label: 'Unresolved / parse error' },
+];
+
+const SIZE_ROWS: { key: keyof SizeReport; label: string }[] = [
+  { key: 'raw', label: 'Raw' },
+  { key: 'gzip', label: 'Gzip' },
+  { key: 'brotli', label: 'Brotli (est.)' },
+];
+
+export const Visualizer: React.FC<VisualizerProps> = ({ files, sizeStats, moduleSizes = [], defaultEntry }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [containerWidth, setContainerWidth] = useState(0);
+  const [graph, setGraph] = useState<DependencyGraph | null>(null);
+  const [entry, setEntry] = useState(defaultEntry || '');
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Resize observer for D3 container
@@ -24,9 +73,23 @@ export const Visualizer: React.FC<VisualizerProps> = ({ files }) => {
     return () => resizeObserver.disconnect();
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    buildDependencyGraph(files)
+      .then(result => { if (!cancelled) setGraph(result); })
+      .catch(() => { if (!cancelled) setGraph(null); });
+    return () => { cancelled = true; };
+  }, [files]);
+
+  useEffect(() => {
+    setEntry(defaultEntry || '');
+  }, [defaultEntry]);
+
+  const reachable = useMemo(() => (graph && entry ? findReachable(graph, entry) : null), [graph, entry]);
+
   // D3 Force Graph Effect
   useEffect(() => {
-    if (!files.length || !svgRef.current || containerWidth === 0) return;
+    if (!graph || !svgRef.current || containerWidth === 0) return;
 
     const width = containerWidth;
     const height = 400;
@@ -39,57 +102,121 @@ export const Visualizer: React.FC<VisualizerProps> = ({ files }) => {
       .attr("height", height)
       .attr("viewBox", [0, 0, width, height]);
 
-    // Data structure: Center node "Bundle", leaves are files
-    const nodes = [
-      { id: "Bundle", group: 1, size: 20 },
-      ...files.map(f => ({ id: f.name, group: 2, size: Math.max(5, Math.log(f.size) * 2) }))
+    const cycleOf = new Map<string, number>();
+    graph.cycles.forEach((cycle, i) => cycle.forEach(id => cycleOf.set(id, i)));
+    const orphans = new Set(graph.orphans.filter(id => id !== entry));
+    const broken = new Set(graph.parseErrors.map(e => e.id));
+
+    // Unresolved specifiers become ghost nodes attached to the module that imports them
+    const nodes: GraphNode[] = [
+      ...graph.nodes.map(n => ({ id: n.id, label: n.id, kind: 'module' as const, size: Math.max(5, Math.log(n.size + 1) * 1.6) })),
+      ...graph.unresolved.map(u => ({ id: `${u.from} → ${u.specifier}`, label: u.specifier, kind: 'unresolved' as const, size: 5 })),
+    ];
+    const links: GraphLink[] = [
+      ...graph.edges.map(e => ({
+        source: e.from,
+        target: e.to,
+        kind: cycleOf.has(e.from) && cycleOf.get(e.from) === cycleOf.get(e.to) ? 'cycle' as const : 'import' as const,
+      })),
+      ...graph.unresolved.map(u => ({ source: u.from, target: `${u.from} → ${u.specifier}`, kind: 'unresolved' as const })),
     ];
 
-    const links = files.map(f => ({ source: "Bundle", target: f.name }));
+    const isFaded = (id: string) => reachable !== null && !reachable.has(id);
+    const nodeColor = (d: GraphNode) => {
+      if (d.kind === 'unresolved' || broken.has(d.id)) return NODE_COLORS.unresolved;
+      if (d.id === entry) return NODE_COLORS.entry;
+      if (cycleOf.has(d.id)) return NODE_COLORS.cycle;
+      if (orphans.has(d.id)) return NODE_COLORS.orphan;
+      return NODE_COLORS.module;
+    };
 
     const simulation = d3.forceSimulation(nodes as any)
-      .force("link", d3.forceLink(links).id((d: any) => d.id).distance(100))
-      .force("charge", d3.forceManyBody().strength(-300))
+      .force("link", d3.forceLink(links).id((d: any) => d.id).distance(70))
+      .force("charge", d3.forceManyBody().strength(-260))
       .force("center", d3.forceCenter(width / 2, height / 2))
       .force("collide", d3.forceCollide().radius((d: any) => d.size + 10));
 
+    svg.append("defs")
+      .selectAll("marker")
+      .data(Object.entries(LINK_COLORS))
+      .join("marker")
+      .attr("id", ([kind]) => `arrow-${kind}`)
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 10)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5")
+      .attr("fill", ([, color]) => color);
+
     const link = svg.append("g")
-      .attr("stroke", "#4b5563")
-      .attr("stroke-opacity", 0.6)
       .selectAll("line")
       .data(links)
       .join("line")
-      .attr("stroke-width", 2);
+      .attr("stroke", (d: GraphLink) => LINK_COLORS[d.kind])
+      .attr("stroke-width", (d: GraphLink) => d.kind === 'cycle' ? 2.5 : 1.5)
+      .attr("stroke-dasharray", (d: GraphLink) => d.kind === 'unresolved' ? "4 3" : null)
+      .attr("stroke-opacity", (d: any) => isFaded(d.source.id ?? d.source) ? 0.1 : 0.7)
+      .attr("marker-end", (d: GraphLink) => `url(#arrow-${d.kind})`);
 
     const node = svg.append("g")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5)
       .selectAll("circle")
       .data(nodes)
       .join("circle")
-      .attr("r", (d: any) => d.size)
-      .attr("fill", (d: any) => d.group === 1 ? "#ff00ff" : "#00faff")
+      .attr("r", (d: GraphNode) => d.size)
+      .attr("fill", nodeColor)
+      .attr("fill-opacity", (d: GraphNode) => d.kind === 'unresolved' ? 0.2 : 1)
+      .attr("stroke", (d: GraphNode) => d.kind === 'unresolved' ? NODE_COLORS.unresolved : "#fff")
+      .attr("stroke-width", 1.5)
+      .attr("stroke-dasharray", (d: GraphNode) => d.kind === 'unresolved' ? "2 2" : null)
+      .attr("opacity", (d: GraphNode) => isFaded(d.id) && d.kind === 'module' ? 0.15 : 1)
+      .style("cursor", (d: GraphNode) => d.kind === 'module' ? "pointer" : "grab")
+      .on("dblclick", (_: any, d: GraphNode) => {
+        if (d.kind === 'module') setEntry(d.id);
+      })
       .call(drag(simulation) as any);
 
     node.append("title")
-      .text((d: any) => d.id);
+      .text((d: GraphNode) => {
+        if (d.kind === 'unresolved') return `Unresolved import "${d.label}"`;
+        const notes = [
+          d.id === entry && 'entry',
+          cycleOf.has(d.id) && 'in a circular dependency',
+          orphans.has(d.id) && 'not imported by any module',
+          broken.has(d.id) && 'failed to parse',
+          isFaded(d.id) && 'unreachable from entry',
+        ].filter(Boolean);
+        return notes.length ? `${d.id}\n${notes.join(', ')}` : d.id;
+      });
 
     const labels = svg.append("g")
       .selectAll("text")
       .data(nodes)
       .join("text")
-      .text((d: any) => d.id)
+      .text((d: GraphNode) => d.label)
       .attr("font-size", "10px")
-      .attr("fill", "#eaf7ff")
+      .attr("fill", (d: GraphNode) => d.kind === 'unresolved' ? NODE_COLORS.unresolved : "#eaf7ff")
+      .attr("opacity", (d: GraphNode) => isFaded(d.id) && d.kind === 'module' ? 0.2 : 1)
+      .attr("pointer-events", "none")
       .attr("dx", 12)
       .attr("dy", 4);
 
+    // Lines stop at the edge of the target circle so the arrowheads stay visible
+    const trimmedEnd = (d: any, axis: 'x' | 'y') => {
+      const dx = d.target.x - d.source.x;
+      const dy = d.target.y - d.source.y;
+      const length = Math.hypot(dx, dy) || 1;
+      const offset = d.target.size + 2;
+      return d.target[axis] - ((axis === 'x' ? dx : dy) / length) * offset;
+    };
+
     simulation.on("tick", () => {
       link
         .attr("x1", (d: any) => d.source.x)
         .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
+        .attr("x2", (d: any) => trimmedEnd(d, 'x'))
+        .attr("y2", (d: any) => trimmedEnd(d, 'y'));
 
       node
         .attr("cx", (d: any) => d.x)
@@ -124,22 +251,92 @@ export const Visualizer: React.FC<VisualizerProps> = ({ files }) => {
     return () => {
       simulation.stop();
     };
-  }, [files, containerWidth]);
+  }, [graph, entry, reachable, containerWidth]);
 
   // Prepare Recharts Data
   const chartData = files.map(f => ({
     name: f.name.length > 15 ? f.name.substring(0, 12) + '...' : f.name,
-    full_name: f.name,
+    full_name: f.path,
     size: f.size,
   })).sort((a, b) => b.size - a.size);
 
   return (
     <div className="space-y-6">
+      {sizeStats && (
+        <div className="bg-dark-card border border-white/10 rounded-xl p-4 shadow-2xl">
+          <h3 className="text-neon-purple font-bold mb-4 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-neon-purple"></span>
+            Output Size
+          </h3>
+          <div className="grid grid-cols-4 gap-2 text-xs font-mono">
+            <span className="text-gray-500 uppercase tracking-widest text-[10px]"></span>
+            <span className="text-gray-500 uppercase tracking-widest text-[10px]">Before</span>
+            <span className="text-gray-500 uppercase tracking-widest text-[10px]">After</span>
+            <span className="text-gray-500 uppercase tracking-widest text-[10px]">Saved</span>
+            {SIZE_ROWS.map(({ key, label }) => {
+              const before = sizeStats.before[key];
+              const after = sizeStats.after[key];
+              const saved = before > 0 ? Math.round((1 - after / before) * 100) : 0;
+              return (
+                <React.Fragment key={key}>
+                  <span className="text-gray-400">{label}</span>
+                  <span className="text-gray-300">{formatBytes(before)}</span>
+                  <span className="text-neon-cyan">{formatBytes(after)}</span>
+                  <span className={saved > 0 ? 'text-green-400' : 'text-gray-500'}>{saved > 0 ? `-${saved}%` : '—'}</span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="bg-dark-card border border-white/10 rounded-xl p-4 shadow-2xl">
-        <h3 className="text-neon-cyan font-bold mb-4 flex items-center gap-2">
-          <span className="w-2 h-2 rounded-full bg-neon-cyan"></span>
-          Dependency Topology
+        <h3 className="text-neon-purple font-bold mb-4 flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-neon-purple"></span>
+          Bundle Composition
         </h3>
+        <BundleTreemap modules={moduleSizes} />
+      </div>
+
+      <div className="bg-dark-card border border-white/10 rounded-xl p-4 shadow-2xl">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-neon-cyan font-bold flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-neon-cyan"></span>
+            Dependency Topology
+          </h3>
+          {graph && graph.nodes.some(n => n.isScript) && (
+            <label className="flex items-center gap-2 text-[10px] text-gray-500 uppercase tracking-widest">
+              Entry
+              <select value={entry} onChange={e => setEntry(e.target.value)} className="bg-dark-bg border border-white/10 rounded-lg p-1.5 text-xs text-white normal-case tracking-normal focus:outline-none focus:border-neon-cyan">
+                <option value="">None (show all)</option>
+                {graph.nodes.filter(n => n.isScript).map(n => <option key={n.id} value={n.id}>{n.id}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+        {graph && (
+          <div className="flex flex-wrap gap-2 mb-3 text-[10px] font-mono">
+            <span className={`px-2 py-1 rounded border ${graph.cycles.length ? 'border-orange-400/40 text-orange-400' : 'border-white/10 text-gray-500'}`}>
+              {graph.cycles.length} circular {graph.cycles.length === 1 ? 'chain' : 'chains'}
+            </span>
+            <span className={`px-2 py-1 rounded border ${graph.unresolved.length ? 'border-red-400/40 text-red-400' : 'border-white/10 text-gray-500'}`}>
+              {graph.unresolved.length} unresolved
+            </span>
+            <span className={`px-2 py-1 rounded border ${graph.orphans.filter(id => id !== entry).length ? 'border-yellow-400/40 text-yellow-400' : 'border-white/10 text-gray-500'}`}>
+              {graph.orphans.filter(id => id !== entry).length} orphaned
+            </span>
+            {reachable && (
+              <span className="px-2 py-1 rounded border border-white/10 text-gray-400">
+                {graph.nodes.filter(n => !reachable.has(n.id)).length} unreachable from entry
+              </span>
+            )}
+            {graph.externals.length > 0 && (
+              <span className="px-2 py-1 rounded border border-white/10 text-gray-500" title={graph.externals.join('\n')}>
+                {graph.externals.length} external
+              </span>
+            )}
+          </div>
+        )}
         <div ref={containerRef} className="w-full h-[400px] bg-dark-bg/50 rounded-lg overflow-hidden relative">
            {!files.length && (
             <div className="absolute inset-0 flex items-center justify-center text-gray-500">
@@ -148,6 +345,24 @@ export const Visualizer: React.FC<VisualizerProps> = ({ files }) => {
           )}
           <svg ref={svgRef} className="w-full h-full cursor-grab active:cursor-grabbing"></svg>
         </div>
+        {graph && graph.nodes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-4 mt-3 text-[10px] text-gray-400">
+            {LEGEND.map(item => (
+              <span key={item.label} className="flex items-center gap-1.5">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: item.color }}></span>
+                {item.label}
+              </span>
+            ))}
+            <span className="text-gray-600">Double-click a module to make it the entry</span>
+          </div>
+        )}
+        {graph && graph.cycles.length > 0 && (
+          <div className="mt-3 space-y-1 text-[11px] font-mono text-orange-300/80">
+            {graph.cycles.map((cycle, i) => (
+              <div key={i} className="truncate">{[...cycle, cycle[0]].join(' → ')}</div>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="bg-dark-card border border-white/10 rounded-xl p-4 shadow-2xl">
@@ -0,0 +1,197 @@
+import { normalizePath } from './bundlerService';
+
+export interface ArchiveEntry {
+  path: string;
+  content: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Writes a zip archive with every entry stored uncompressed, so the download is as large as the
+ * files themselves. Workspace exports are small text, and storing keeps the writer synchronous.
+ */
+export const createZip = (entries: ArchiveEntry[], modified = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path.replace(/^\/+/, ''));
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+export const isArchiveFile = (name: string) => /\.(zip|tar|tgz|tar\.gz)$/i.test(name);
+
+const inflate = async (bytes: Uint8Array, format: 'deflate-raw' | 'gzip') => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZip = async (bytes: Uint8Array): Promise<ArchiveEntry[]> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits at the very end, followed by an optional comment
+  let endOffset = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error('Not a valid zip archive (missing central directory).');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  if (offset === 0xffffffff) throw new Error('Zip64 archives are not supported.');
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt zip central directory.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.push({ path, content: data });
+    else if (method === 8) entries.push({ path, content: await inflate(data, 'deflate-raw') });
+    else throw new Error(`Unsupported zip compression method ${method} for "${path}".`);
+  }
+  return entries;
+};
+
+const readTar = (bytes: Uint8Array): ArchiveEntry[] => {
+  const decoder = new TextDecoder();
+  const readString = (start: number, length: number) => decoder.decode(bytes.subarray(start, start + length)).replace(/\0.*$/s, '');
+  const entries: ArchiveEntry[] = [];
+  let longName: string | null = null;
+  let offset = 0;
+
+  while (offset + 512 <= bytes.length) {
+    const name = readString(offset, 100);
+    if (!name) break; // two zero blocks terminate the archive
+    const size = parseInt(readString(offset + 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(bytes[offset + 156]);
+    const prefix = readString(offset + 345, 155);
+    const data = bytes.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      // GNU long name: the next header's name is stored in this entry's data
+      longName = decoder.decode(data).replace(/\0.*$/s, '');
+      continue;
+    }
+    if (type === 'x') {
+      const pathRecord = decoder.decode(data).match(/\d+ path=([^\n]*)\n/);
+      if (pathRecord) longName = pathRecord[1];
+      continue;
+    }
+    const path = longName || (prefix ? `${prefix}/${name}` : name);
+    longName = null;
+    if (type === '0' || type === '\0') entries.push({ path, content: data });
+  }
+  return entries;
+};
+
+// `tar czf x.tgz .` stores `./src/a.js`; workspace paths have no `.`, `..` or leading slash
+const toWorkspacePath = (path: string) => {
+  let depth = 0;
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '..') depth--;
+    else if (segment && segment !== '.') depth++;
+    if (depth < 0) throw new Error(`Entry "${path}" points outside the archive.`);
+  }
+  return normalizePath(path);
+};
+
+const readArchive = async (file: File): Promise<ArchiveEntry[]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.zip')) return readZip(bytes);
+  if (name.endsWith('.tar')) return readTar(bytes);
+  return readTar(await inflate(bytes, 'gzip'));
+};
+
+/**
+ * Unpacks a .zip, .tar, .tar.gz or .tgz file into its file entries (directories are dropped),
+ * with paths relative to the archive root. Throws when an entry points outside it.
+ * Decompression relies on the browser's native DecompressionStream.
+ */
+export const extractArchive = async (file: File): Promise<ArchiveEntry[]> => {
+  const entries = await readArchive(file);
+  return entries
+    .map(entry => ({ ...entry, path: toWorkspacePath(entry.path) }))
+    .filter(entry => entry.path);
+};
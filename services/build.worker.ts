@@ -0,0 +1,146 @@
+import { BundleResult, BundleSizeComparison, ComponentMetadata, FileEntry, LintConfig, ModuleSizeReport, SourceMap } from '../types';
+import { BundleOptions, bundleWorkspace, createTransformCache, isScriptFile, SourceLocation, TransformError } from './bundlerService';
+import { discoverModuleComponents } from './componentDiscoveryService';
+import { fixSourceFile, lintSourceFile } from './eslintService';
+import { compareSizes, measureModuleSizes } from './sizeService';
+
+export type BuildStage = 'transform' | 'minify' | 'lint' | 'size';
+
+export interface StaticLintMessage {
+  file: string;
+  line: number;
+  column: number;
+  severity: number;
+  message: string;
+  ruleId: string | null;
+  // Offsets into the linted file
+  fix?: { range: [number, number]; text: string };
+}
+
+export type BuildRequest =
+  | { id: number; type: 'bundle'; files: FileEntry[]; options: Omit<BundleOptions, 'cache' | 'signal' | 'onProgress'> }
+  | { id: number; type: 'analyze'; finalCode: string; unoptimizedCode: string; lintFiles: FileEntry[]; lintConfig: LintConfig; bundle: { code: string; map: SourceMap; transpiledSizes: Record<string, number> } | null }
+  | { id: number; type: 'fix'; files: FileEntry[]; lintConfig: LintConfig }
+  | { id: number; type: 'discover'; files: FileEntry[] }
+  | { id: number; type: 'cancel' };
+
+export type BuildResponse =
+  | { id: number; type: 'progress'; stage: BuildStage; file?: string; done: number; cached?: boolean }
+  | { id: number; type: 'bundled'; result: BundleResult }
+  | { id: number; type: 'analyzed'; sizes: BundleSizeComparison; moduleSizes: ModuleSizeReport[]; lintMessages: StaticLintMessage[] }
+  | { id: number; type: 'fixed'; changes: { path: string; content: string }[] }
+  | { id: number; type: 'discovered'; components: ComponentMetadata[] }
+  | { id: number; type: 'cancelled' }
+  | { id: number; type: 'error'; error: string; location?: SourceLocation };
+
+// Lives as long as the worker, so incremental builds survive cancelled ones; every build that
+// gets past transforming prunes what it no longer needs
+const transformCache = createTransformCache();
+const controllers = new Map<number, AbortController>();
+
+// Babel runs synchronously; yielding between modules lets queued cancel messages through.
+// A MessageChannel round-trip avoids the 4ms clamp nested setTimeout calls get.
+const yieldToEventLoop = () => new Promise<void>(resolve => {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = () => {
+    channel.port1.close();
+    resolve();
+  };
+  channel.port2.postMessage(null);
+});
+
+const post = (response: BuildResponse) => self.postMessage(response);
+
+const runBundle = async (request: Extract<BuildRequest, { type: 'bundle' }>, signal: AbortSignal) => {
+  let done = 0;
+  const result = await bundleWorkspace(request.files, {
+    ...request.options,
+    cache: transformCache,
+    signal,
+    onProgress: async event => {
+      if (event.stage === 'transform') {
+        post({ id: request.id, type: 'progress', stage: 'transform', file: event.id, done: ++done, cached: event.cached });
+      } else {
+        post({ id: request.id, type: 'progress', stage: 'minify', done });
+      }
+      await yieldToEventLoop();
+    },
+  });
+  post({ id: request.id, type: 'bundled', result });
+};
+
+const runAnalyze = async (request: Extract<BuildRequest, { type: 'analyze' }>, signal: AbortSignal) => {
+  // Each source file is linted as written, so reports point at the file rather than the bundle
+  const Babel = await import('@babel/standalone');
+  const lintMessages: StaticLintMessage[] = [];
+  const scripts = request.lintFiles.filter(f => isScriptFile(f.name));
+  for (const [index, file] of scripts.entries()) {
+    post({ id: request.id, type: 'progress', stage: 'lint', file: file.path, done: index + 1 });
+    await yieldToEventLoop();
+    signal.throwIfAborted();
+    lintSourceFile(Babel, file, request.lintConfig).forEach(({ line, column, severity, message, ruleId, fix }) => {
+      lintMessages.push({ file: file.path, line, column, severity, message, ruleId, fix });
+    });
+  }
+
+  post({ id: request.id, type: 'progress', stage: 'size', done: 0 });
+  await yieldToEventLoop();
+  signal.throwIfAborted();
+  const sizes = await compareSizes(request.unoptimizedCode, request.finalCode);
+  const moduleSizes = request.bundle
+    ? await measureModuleSizes(request.bundle.code, request.bundle.map, request.bundle.transpiledSizes)
+    : [];
+  post({ id: request.id, type: 'analyzed', sizes, moduleSizes, lintMessages });
+};
+
+const runFix = async (request: Extract<BuildRequest, { type: 'fix' }>, signal: AbortSignal) => {
+  const Babel = await import('@babel/standalone');
+  const changes: { path: string; content: string }[] = [];
+  for (const file of request.files.filter(f => isScriptFile(f.name))) {
+    await yieldToEventLoop();
+    signal.throwIfAborted();
+    const content = fixSourceFile(Babel, file, request.lintConfig);
+    if (content !== file.content) changes.push({ path: file.path, content });
+  }
+  post({ id: request.id, type: 'fixed', changes });
+};
+
+const runDiscover = async (request: Extract<BuildRequest, { type: 'discover' }>, signal: AbortSignal) => {
+  const Babel = await import('@babel/standalone');
+  const found = new Map<string, ComponentMetadata>();
+  for (const file of request.files.filter(f => isScriptFile(f.name))) {
+    await yieldToEventLoop();
+    signal.throwIfAborted();
+    // A file that does not parse is skipped; the build reports it
+    let components: ComponentMetadata[];
+    try {
+      components = discoverModuleComponents(Babel, file);
+    } catch (err) {
+      continue;
+    }
+    components.forEach(c => { if (!found.has(c.name)) found.set(c.name, c); });
+  }
+  post({ id: request.id, type: 'discovered', components: Array.from(found.values()) });
+};
+
+self.onmessage = async (event: MessageEvent<BuildRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+  try {
+    if (request.type === 'bundle') await runBundle(request, controller.signal);
+    else if (request.type === 'analyze') await runAnalyze(request, controller.signal);
+    else if (request.type === 'fix') await runFix(request, controller.signal);
+    else await runDiscover(request, controller.signal);
+  } catch (err) {
+    if (controller.signal.aborted) post({ id: request.id, type: 'cancelled' });
+    else post({ id: request.id, type: 'error', error: (err as Error).message, location: err instanceof TransformError ? err.location : undefined });
+  } finally {
+    controllers.delete(request.id);
+  }
+};
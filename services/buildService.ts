@@ -0,0 +1,112 @@
+import { BundleResult, BundleSizeComparison, ComponentMetadata, FileEntry, LintConfig, ModuleSizeReport, SourceMap } from '../types';
+import { TransformError } from './bundlerService';
+import type { BundleOptions } from './bundlerService';
+import type { BuildRequest, BuildResponse, BuildStage, StaticLintMessage } from './build.worker';
+
+export type { BuildStage, StaticLintMessage };
+
+export interface BuildProgress {
+  stage: BuildStage;
+  file?: string;
+  done: number;
+  cached?: boolean;
+}
+
+interface PendingJob {
+  resolve: (response: BuildResponse) => void;
+  reject: (e: Error) => void;
+  onProgress?: (progress: BuildProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingJob>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./build.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<BuildResponse>) => {
+    const job = pending.get(event.data.id);
+    if (!job) return;
+    if (event.data.type === 'progress') {
+      const { stage, file, done, cached } = event.data;
+      job.onProgress?.({ stage, file, done, cached });
+      return;
+    }
+    pending.delete(event.data.id);
+    if (event.data.type === 'error') job.reject(event.data.location ? new TransformError(event.data.error, event.data.location) : new Error(event.data.error));
+    else if (event.data.type === 'cancelled') job.reject(new DOMException('Build was cancelled.', 'AbortError'));
+    else job.resolve(event.data);
+  };
+  worker.onerror = (event) => {
+    pending.forEach(job => job.reject(new Error(event.message || 'Build worker crashed.')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Distributes Omit over the request union so each variant keeps its own fields
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+type RequestBody = DistributiveOmit<BuildRequest, 'id'>;
+
+const runJob = (body: RequestBody, signal?: AbortSignal, onProgress?: (progress: BuildProgress) => void) => {
+  if (signal?.aborted) return Promise.reject(new DOMException('Build was cancelled.', 'AbortError'));
+  const id = nextRequestId++;
+  return new Promise<BuildResponse>((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress });
+    signal?.addEventListener('abort', () => getWorker().postMessage({ id, type: 'cancel' } satisfies BuildRequest), { once: true });
+    getWorker().postMessage({ ...body, id } as BuildRequest);
+  });
+};
+
+/**
+ * Bundles the workspace in the build worker, which keeps the per-module transform cache.
+ * Aborting the signal stops the build at the next module boundary and rejects with an AbortError.
+ */
+export const bundleInWorker = async (
+  files: FileEntry[],
+  options: Omit<BundleOptions, 'cache' | 'signal' | 'onProgress'>,
+  signal?: AbortSignal,
+  onProgress?: (progress: BuildProgress) => void,
+): Promise<BundleResult> => {
+  const response = await runJob({ type: 'bundle', files, options }, signal, onProgress);
+  if (response.type !== 'bundled') throw new Error('Unexpected response from build worker.');
+  return response.result;
+};
+
+/**
+ * Lints each source file with the given rules and measures the bundle (before/after and per module) in the build worker.
+ */
+export const analyzeInWorker = async (
+  input: { finalCode: string; unoptimizedCode: string; lintFiles: FileEntry[]; lintConfig: LintConfig; bundle: { code: string; map: SourceMap; transpiledSizes: Record<string, number> } | null },
+  signal?: AbortSignal,
+  onProgress?: (progress: BuildProgress) => void,
+): Promise<{ sizes: BundleSizeComparison; moduleSizes: ModuleSizeReport[]; lintMessages: StaticLintMessage[] }> => {
+  const response = await runJob({ type: 'analyze', ...input }, signal, onProgress);
+  if (response.type !== 'analyzed') throw new Error('Unexpected response from build worker.');
+  return response;
+};
+
+/**
+ * Applies ESLint's autofixes to the given files in the build worker. Resolves to the new
+ * content of every file that changed; nothing is written back.
+ */
+export const fixInWorker = async (files: FileEntry[], lintConfig: LintConfig, signal?: AbortSignal): Promise<{ path: string; content: string }[]> => {
+  const response = await runJob({ type: 'fix', files, lintConfig }, signal);
+  if (response.type !== 'fixed') throw new Error('Unexpected response from build worker.');
+  return response.changes;
+};
+
+/**
+ * Finds the components the workspace's scripts export, and their props, in the build worker.
+ * When two files export a component with the same name, the first one wins.
+ */
+export const discoverInWorker = async (files: FileEntry[], signal?: AbortSignal): Promise<ComponentMetadata[]> => {
+  const response = await runJob({ type: 'discover', files }, signal);
+  if (response.type !== 'discovered') throw new Error('Unexpected response from build worker.');
+  return response.components;
+};
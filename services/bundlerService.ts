@@ -0,0 +1,501 @@
+import { FileEntry, BundleFormat, BundleMode, BundleResult, BundleWarning, SourceMap } from '../types';
+import { decodeMappings, encodeMappings, MappingSegment } from './sourceMapService';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const RESOLVE_EXTENSIONS = [...SCRIPT_EXTENSIONS, '.json', '.css'];
+
+export interface BundleOptions {
+  entry?: string;
+  format: BundleFormat;
+  transpile: boolean;
+  mode?: BundleMode;
+  preserveLicenseComments?: boolean;
+  // Global the bundle registers its modules under instead of running the entry (iife only), so a host
+  // page such as the Playground can load the modules it needs by id and read their exports
+  exportRegistry?: string;
+  // Reused across builds so only modules whose content changed are transformed again
+  cache?: TransformCache;
+  // Checked between modules; an aborted build rejects with the signal's reason
+  signal?: AbortSignal;
+  // Awaited after each module is transformed and before minification, which lets a worker report progress and yield
+  onProgress?: (event: { stage: 'transform'; id: string; cached: boolean } | { stage: 'minify' }) => void | Promise<void>;
+}
+
+type TransformOutput = ReturnType<typeof transformModule> & { removed: string[] };
+
+export type TransformCache = Map<string, { hash: string; output: TransformOutput }>;
+
+export const createTransformCache = (): TransformCache => new Map();
+
+// Cache keys start with the module id, followed by what else the output depends on
+const variantModule = (variant: string) => variant.split('\0')[0];
+
+/**
+ * Drops the entries a finished build has no use for: modules that left the workspace, and the
+ * variants of its modules it did not ask for, such as exports pruned for an older set of importers.
+ */
+const pruneTransformCache = (cache: TransformCache, moduleIds: Set<string>, usedVariants: Set<string>) => {
+  const built = new Set(Array.from(usedVariants, variantModule));
+  for (const variant of cache.keys()) {
+    const id = variantModule(variant);
+    if (!moduleIds.has(id) || (built.has(id) && !usedVariants.has(variant))) cache.delete(variant);
+  }
+};
+
+export interface SourceLocation {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+// A module that Babel could not parse; the location survives the trip back from the build worker
+export class TransformError extends Error {
+  constructor(message: string, readonly location: SourceLocation) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+// Export names a module's importers read from it; '*' means "all of them" (namespace, require, export *)
+export type ImportedNames = Map<string, Set<string>>;
+
+interface ModuleRecord {
+  id: string;
+  code: string;
+  map: SourceMap | null;
+  // Maps each specifier used in the module to a module id (internal) or null (external)
+  dependencies: Record<string, string | null>;
+  imports: ImportedNames;
+  exportNames: string[];
+}
+
+export const isScriptFile = (name: string) => /\.(js|ts|jsx|tsx|mjs|cjs)$/i.test(name);
+
+export const getModuleId = (file: FileEntry) => file.path;
+
+export const normalizePath = (path: string) => {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+const dirname = (path: string) => {
+  const idx = path.lastIndexOf('/');
+  return idx === -1 ? '' : path.substring(0, idx);
+};
+
+export const isRelativeSpecifier = (specifier: string) => /^\.{0,2}\//.test(specifier);
+
+/**
+ * Resolves a relative specifier against the importing module the way Node/Vite do:
+ * exact match first, then implicit extensions, then a directory index file.
+ * Returns null for bare specifiers and for paths that match no workspace file.
+ */
+export const resolveImport = (fromId: string, specifier: string, moduleIds: Set<string>): string | null => {
+  if (!isRelativeSpecifier(specifier)) return null;
+  const base = normalizePath(specifier.startsWith('/') ? specifier : `${dirname(fromId)}/${specifier}`);
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map(ext => base + ext),
+    ...RESOLVE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+  // TS sources commonly import './foo.js' to mean './foo.ts'
+  if (/\.(m|c)?js$/.test(base)) {
+    const stem = base.replace(/\.(m|c)?js$/, '');
+    candidates.push(`${stem}.ts`, `${stem}.tsx`);
+  }
+  return candidates.find(c => moduleIds.has(c)) || null;
+};
+
+export const findDefaultEntry = (files: FileEntry[]): string | null => {
+  const scripts = files.filter(f => isScriptFile(f.name));
+  const preferred = ['index', 'main', 'app'];
+  for (const stem of preferred) {
+    const match = scripts.find(f => getModuleId(f).toLowerCase().split('/').pop()!.replace(/\.[^.]+$/, '') === stem);
+    if (match) return getModuleId(match);
+  }
+  return scripts[0] ? getModuleId(scripts[0]) : null;
+};
+
+const exportedName = (specifier: any): string => specifier.exported.name ?? specifier.exported.value;
+
+const addImport = (imports: ImportedNames, specifier: string, name?: string) => {
+  if (!imports.has(specifier)) imports.set(specifier, new Set());
+  if (name) imports.get(specifier)!.add(name);
+};
+
+// Babel plugin that records every module specifier, the names read from it and this module's export names
+export const collectModuleInfo = (imports: ImportedNames, exportNames: Set<string>) => () => ({
+  visitor: {
+    ImportDeclaration(path: any) {
+      if (path.node.importKind === 'type') return;
+      const source = path.node.source.value;
+      addImport(imports, source);
+      path.node.specifiers.forEach((s: any) => {
+        if (s.importKind === 'type') return;
+        if (s.type === 'ImportDefaultSpecifier') addImport(imports, source, 'default');
+        else if (s.type === 'ImportNamespaceSpecifier') addImport(imports, source, '*');
+        else addImport(imports, source, s.imported.name ?? s.imported.value);
+      });
+    },
+    ExportNamedDeclaration(path: any) {
+      if (path.node.exportKind === 'type') return;
+      const source = path.node.source?.value;
+      if (source) addImport(imports, source);
+      const declaration = path.node.declaration;
+      if (declaration?.id?.name) exportNames.add(declaration.id.name);
+      declaration?.declarations?.forEach((d: any) => d.id?.name && exportNames.add(d.id.name));
+      path.node.specifiers?.forEach((s: any) => {
+        exportNames.add(exportedName(s));
+        if (!source) return;
+        if (s.type === 'ExportNamespaceSpecifier') addImport(imports, source, '*');
+        else addImport(imports, source, s.local?.name ?? 'default');
+      });
+    },
+    ExportAllDeclaration(path: any) {
+      addImport(imports, path.node.source.value, '*');
+    },
+    ExportDefaultDeclaration() {
+      exportNames.add('default');
+    },
+    CallExpression(path: any) {
+      // require() calls emitted by the CommonJS transform itself have no source location
+      if (!path.node.loc) return;
+      const { callee, arguments: args } = path.node;
+      const isRequire = callee.type === 'Identifier' && callee.name === 'require';
+      const isDynamicImport = callee.type === 'Import';
+      if ((isRequire || isDynamicImport) && args[0]?.type === 'StringLiteral') {
+        addImport(imports, args[0].value, '*');
+      }
+    },
+  },
+});
+
+/**
+ * Babel plugin for production builds: exports nobody imports are turned back into plain
+ * declarations, so the minifier can drop them as unused locals of the module scope.
+ */
+const pruneUnusedExports = (usedExports: Set<string>, removed: string[]) => ({ types: t }: any) => ({
+  visitor: {
+    ExportNamedDeclaration(path: any) {
+      if (path.node.exportKind === 'type') return;
+      const { declaration, source, specifiers } = path.node;
+      if (declaration) {
+        const ids = declaration.id ? [declaration.id] : (declaration.declarations ?? []).map((d: any) => d.id);
+        if (ids.length === 0 || ids.some((id: any) => id?.type !== 'Identifier')) return;
+        const names: string[] = ids.map((id: any) => id.name);
+        if (names.some(n => usedExports.has(n))) return;
+        removed.push(...names);
+        path.replaceWith(declaration);
+        return;
+      }
+      const kept = specifiers.filter((s: any) => usedExports.has(exportedName(s)));
+      if (kept.length === specifiers.length) return;
+      removed.push(...specifiers.filter((s: any) => !kept.includes(s)).map(exportedName));
+      if (kept.length > 0) path.node.specifiers = kept;
+      // Keep the import of a re-exported module for its side effects
+      else if (source) path.replaceWith(t.importDeclaration([], source));
+      else path.remove();
+    },
+    ExportDefaultDeclaration(path: any) {
+      const declaration = path.node.declaration;
+      if (usedExports.has('default') || !declaration.id) return;
+      if (declaration.type !== 'FunctionDeclaration' && declaration.type !== 'ClassDeclaration') return;
+      removed.push('default');
+      path.replaceWith(declaration);
+    },
+  },
+});
+
+// cyrb53: a fast 53-bit string hash, plenty to tell two versions of the same file apart
+export const hashContent = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const transformModule = (Babel: any, file: FileEntry, transpile: boolean, prune?: { usedExports: Set<string>; removed: string[] }) => {
+  const id = getModuleId(file);
+  const imports: ImportedNames = new Map();
+  const exportNames = new Set<string>();
+
+  if (/\.json$/i.test(id)) {
+    return { code: `module.exports = ${file.content.trim() || 'null'};`, map: null, imports, exportNames };
+  }
+  if (/\.(css|scss|less|sass)$/i.test(id)) {
+    const code = `var style = document.createElement('style');\nstyle.setAttribute('data-module', ${JSON.stringify(id)});\nstyle.textContent = ${JSON.stringify(file.content)};\ndocument.head.appendChild(style);`;
+    return { code, map: null, imports, exportNames };
+  }
+  if (!isScriptFile(id)) {
+    return { code: `module.exports = ${JSON.stringify(file.content)};`, map: null, imports, exportNames };
+  }
+
+  const sanitizedCode = file.content.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]/g, "");
+  const presets: any[] = transpile
+    ? [['env', { modules: 'commonjs' }], 'react', 'typescript']
+    : ['typescript'];
+  const plugins: any[] = [collectModuleInfo(imports, exportNames)];
+  if (prune) plugins.push(pruneUnusedExports(prune.usedExports, prune.removed));
+  if (!transpile) plugins.push('syntax-jsx', 'transform-modules-commonjs');
+
+  try {
+    const res = Babel.transform(sanitizedCode, {
+      presets,
+      plugins,
+      filename: id,
+      sourceFileName: id,
+      sourceType: 'unambiguous',
+      sourceMaps: true,
+      retainLines: true,
+    });
+    return { code: res.code || '', map: (res.map as SourceMap) || null, imports, exportNames };
+  } catch (babelError) {
+    const msg = (babelError as Error).message;
+    const loc = (babelError as any).loc;
+    const where = loc ? `${id}:${loc.line}:${loc.column + 1}` : id;
+    throw new TransformError(`Syntax Error in ${where}: ${msg.split('\n')[0]}`, { file: id, line: loc?.line, column: loc ? loc.column + 1 : undefined });
+  }
+};
+
+const INDENT = '    ';
+const indent = (code: string) => code.split('\n').map(line => (line ? INDENT + line : line)).join('\n');
+const countLines = (text: string) => text.split('\n').length - 1;
+const MODULE_TABLE_PLACEHOLDER = '/*__MODULE_TABLE__*/';
+
+/**
+ * Offsets every module's own source map by the line it starts on in the bundle (and the
+ * indentation added by the wrapper), producing one map whose sources are the workspace files.
+ */
+const composeSourceMap = (modules: ModuleRecord[], moduleStartLines: Map<string, number>, files: Map<string, FileEntry>): SourceMap => {
+  const sources = modules.map(m => m.id);
+  const lines: MappingSegment[][] = [];
+  modules.forEach((m, sourceIndex) => {
+    if (!m.map) return;
+    const startLine = moduleStartLines.get(m.id)!;
+    const generatedLines = m.code.split('\n');
+    decodeMappings(m.map.mappings).forEach((segments, i) => {
+      const target = startLine + i;
+      const shift = generatedLines[i] ? INDENT.length : 0;
+      while (lines.length <= target) lines.push([]);
+      lines[target].push(...segments.map(([col, , origLine, origCol]) => [col + shift, sourceIndex, origLine, origCol] as MappingSegment));
+    });
+  });
+  return {
+    version: 3,
+    file: 'bundle.js',
+    sources,
+    sourcesContent: sources.map(id => files.get(id)?.content ?? null),
+    names: [],
+    mappings: encodeMappings(lines),
+  };
+};
+
+const emitRuntime = (modules: ModuleRecord[], entry: string, format: BundleFormat, externals: string[], exportRegistry?: string) => {
+  const externalLookup = format === 'esm'
+    ? `var externals = { ${externals.map((spec, i) => `${JSON.stringify(spec)}: __external${i}`).join(', ')} };`
+    : `var externals = globalThis.__BUNDLEBLITZ_EXTERNALS__ || {};`;
+
+  const runtime = `(function (modules, entry) {
+  ${externalLookup}
+  var cache = {};
+  function requireExternal(specifier) {
+    var ns = externals[specifier];
+    if (!ns) throw new Error('Cannot find module "' + specifier + '"');
+    return ns.default !== undefined ? Object.assign({ __esModule: true }, ns) : ns;
+  }
+  function load(id) {
+    if (cache[id]) return cache[id].exports;
+    var module = cache[id] = { exports: {} };
+    var definition = modules[id];
+    definition[0].call(module.exports, function (specifier) {
+      var target = definition[1][specifier];
+      return target ? load(target) : requireExternal(specifier);
+    }, module, module.exports);
+    return module.exports;
+  }
+  ${exportRegistry ? `globalThis[${JSON.stringify(exportRegistry)}] = { entry: entry, modules: Object.keys(modules), load: load };` : 'return load(entry);'}
+})({
+${MODULE_TABLE_PLACEHOLDER}
+}, ${JSON.stringify(entry)})`;
+
+  let code: string;
+  if (format === 'iife') {
+    code = `${runtime};\n`;
+  } else {
+    const entryRecord = modules.find(m => m.id === entry)!;
+    const imports = externals.map((spec, i) => `import * as __external${i} from ${JSON.stringify(spec)};`).join('\n');
+    const named = entryRecord.exportNames.filter(n => n !== 'default' && /^[A-Za-z_$][\w$]*$/.test(n));
+    const lines = [imports, `const __entry = ${runtime};`];
+    if (entryRecord.exportNames.includes('default')) lines.push('export default __entry.default;');
+    if (named.length > 0) lines.push(`export const { ${named.join(', ')} } = __entry;`);
+    code = lines.filter(Boolean).join('\n') + '\n';
+  }
+
+  // Each module entry is a header line, its indented code, then a closing line
+  const moduleStartLines = new Map<string, number>();
+  let line = countLines(code.substring(0, code.indexOf(MODULE_TABLE_PLACEHOLDER)));
+  const moduleTable = modules.map(m => {
+    moduleStartLines.set(m.id, line + 1);
+    line += countLines(m.code) + 3;
+    const deps = JSON.stringify(m.dependencies);
+    return `  ${JSON.stringify(m.id)}: [function (require, module, exports) {\n${indent(m.code)}\n  }, ${deps}]`;
+  }).join(',\n');
+
+  return { code: code.replace(MODULE_TABLE_PLACEHOLDER, () => moduleTable), moduleStartLines };
+};
+
+// Unions the names every importer reads from each module; the entry keeps its full public surface
+const collectUsedExports = (records: Map<string, ModuleRecord>, entry: string) => {
+  const used = new Map<string, Set<string>>();
+  records.forEach((_, id) => used.set(id, new Set(id === entry ? ['*'] : [])));
+  records.forEach(record => {
+    record.imports.forEach((names, specifier) => {
+      const target = record.dependencies[specifier];
+      if (target) names.forEach(name => used.get(target)!.add(name));
+    });
+  });
+  return used;
+};
+
+const LICENSE_COMMENT = /^!|@license|@preserve/i;
+
+const minifyBundle = async (code: string, map: SourceMap, options: BundleOptions) => {
+  const { minify } = await import('terser');
+  try {
+    const res = await minify(code, {
+      module: options.format === 'esm',
+      compress: { passes: 2 },
+      mangle: true,
+      format: { comments: options.preserveLicenseComments ? LICENSE_COMMENT : false },
+      sourceMap: { content: map as any, filename: 'bundle.js' },
+    });
+    const minifiedMap = typeof res.map === 'string' ? JSON.parse(res.map) : res.map;
+    return { code: res.code || '', map: (minifiedMap as SourceMap) || map };
+  } catch (terserError) {
+    throw new Error(`Minification failed: ${(terserError as Error).message}`);
+  }
+};
+
+/**
+ * Builds the import graph reachable from the entry module, transforms each module into
+ * its own CommonJS-style scope and emits them in dependency order behind a small runtime.
+ */
+export const bundleWorkspace = async (files: FileEntry[], options: BundleOptions): Promise<BundleResult> => {
+  const entry = options.entry || findDefaultEntry(files);
+  if (!entry) throw new Error('No JS/TS entry point found in workspace.');
+
+  const filesById = new Map(files.map(f => [getModuleId(f), f] as const));
+  if (!filesById.has(entry)) throw new Error(`Entry point "${entry}" is not in the workspace.`);
+  if (options.exportRegistry && options.format !== 'iife') throw new Error('An export registry needs the iife format.');
+  const moduleIds = new Set(filesById.keys());
+
+  const Babel = await import('@babel/standalone');
+  let transformed = 0;
+  let cached = 0;
+  const usedVariants = new Set<string>();
+  // A module's output depends on its content, the transpile flag and, when pruned, which exports survive
+  const transform = (file: FileEntry, usedExports?: Set<string>): TransformOutput => {
+    options.signal?.throwIfAborted();
+    const variant = `${getModuleId(file)}\0${options.transpile}\0${usedExports ? Array.from(usedExports).sort().join(',') : '*'}`;
+    const hash = hashContent(file.content);
+    usedVariants.add(variant);
+    const hit = options.cache?.get(variant);
+    if (hit && hit.hash === hash) {
+      cached++;
+      return hit.output;
+    }
+    transformed++;
+    const removed: string[] = [];
+    const output = { ...transformModule(Babel, file, options.transpile, usedExports ? { usedExports, removed } : undefined), removed };
+    options.cache?.set(variant, { hash, output });
+    return output;
+  };
+
+  const records = new Map<string, ModuleRecord>();
+  const order: string[] = [];
+  const visiting = new Set<string>();
+  const externals = new Set<string>();
+  const warnings: BundleWarning[] = [];
+
+  // Depth-first post-order walk: every module is emitted after the modules it depends on
+  const visit = async (id: string) => {
+    if (records.has(id) || visiting.has(id)) return;
+    visiting.add(id);
+    const cachedBefore = cached;
+    const { code, map, imports, exportNames } = transform(filesById.get(id)!);
+    await options.onProgress?.({ stage: 'transform', id, cached: cached > cachedBefore });
+    const record: ModuleRecord = { id, code, map, dependencies: {}, imports, exportNames: Array.from(exportNames) };
+    records.set(id, record);
+
+    for (const specifier of imports.keys()) {
+      const resolved = resolveImport(id, specifier, moduleIds);
+      record.dependencies[specifier] = resolved;
+      if (resolved) {
+        await visit(resolved);
+      } else if (isRelativeSpecifier(specifier)) {
+        warnings.push({ source: 'import', message: `Unresolved import "${specifier}" in ${id}.`, file: id });
+      } else {
+        externals.add(specifier);
+      }
+    }
+    visiting.delete(id);
+    order.push(id);
+  };
+  await visit(entry);
+
+  const unreachable = files.filter(f => isScriptFile(f.name) && !records.has(getModuleId(f)));
+  if (unreachable.length > 0) {
+    warnings.push({ source: 'bundler', message: `${unreachable.length} script file(s) are not reachable from ${entry} and were left out.` });
+  }
+
+  const production = options.mode === 'production';
+  const removedExports: string[] = [];
+  // A registry hands out every export, so none of them are unused
+  if (production && !options.exportRegistry) {
+    const usedExports = collectUsedExports(records, entry);
+    for (const record of records.values()) {
+      const used = usedExports.get(record.id)!;
+      if (used.has('*') || record.exportNames.every(name => used.has(name))) continue;
+      const cachedBefore = cached;
+      const pruned = transform(filesById.get(record.id)!, used);
+      await options.onProgress?.({ stage: 'transform', id: record.id, cached: cached > cachedBefore });
+      record.code = pruned.code;
+      record.map = pruned.map;
+      removedExports.push(...pruned.removed.map(name => `${record.id}#${name}`));
+    }
+  }
+
+  if (options.cache) pruneTransformCache(options.cache, moduleIds, usedVariants);
+
+  const modules = order.map(id => records.get(id)!);
+  const { code, moduleStartLines } = emitRuntime(modules, entry, options.format, Array.from(externals), options.exportRegistry);
+  const map = composeSourceMap(modules, moduleStartLines, filesById);
+  const result: BundleResult = {
+    code,
+    map,
+    entry,
+    modules: order,
+    externals: Array.from(externals),
+    removedExports,
+    transpiledSizes: Object.fromEntries(modules.map(m => [m.id, new TextEncoder().encode(m.code).length])),
+    warnings,
+    transformStats: { transformed, cached },
+  };
+  if (!production) return result;
+
+  await options.onProgress?.({ stage: 'minify' });
+  options.signal?.throwIfAborted();
+  const minified = await minifyBundle(code, map, options);
+  return { ...result, code: minified.code, map: minified.map, unminifiedCode: code };
+};
@@ -0,0 +1,324 @@
+import { FileEntry, ComponentMetadata, PropDefinition } from '../types';
+import { getModuleId } from './bundlerService';
+
+// What one module declares at its top level, by local name
+interface ModuleScope {
+  types: Map<string, any>;
+  values: Map<string, { node: any; comments: any[] }>;
+  propTypes: Map<string, any>;
+  defaultProps: Map<string, any>;
+  // Local name -> the name it is exported under
+  exports: Map<string, string>;
+}
+
+const isComponentName = (name: string) => /^[A-Z]/.test(name);
+
+const WRAPPERS = new Set(['memo', 'forwardRef']);
+
+const REACT_NODE_TYPES = new Set(['ReactNode', 'ReactChild', 'ReactText']);
+
+const COMPONENT_CLASSES = new Set(['Component', 'PureComponent']);
+
+const keyName = (key: any): string | null =>
+  key?.type === 'Identifier' ? key.name : key?.type === 'StringLiteral' ? key.value : null;
+
+// The last part of `Foo` or `React.Foo`
+const referenceName = (node: any): string | null =>
+  node?.type === 'Identifier' ? node.name
+  : node?.type === 'MemberExpression' ? keyName(node.property)
+  : node?.type === 'TSQualifiedName' ? node.right.name
+  : null;
+
+// The text of the closest `/** ... */` block before a node, without its tags
+const readDoc = (comments: any[] | undefined): string | undefined => {
+  const block = comments?.filter(c => c.type === 'CommentBlock' && c.value.startsWith('*')).pop();
+  if (!block) return undefined;
+  const text = block.value
+    .split('\n')
+    .map((line: string) => line.replace(/^\s*\*+\s?/, '').trim())
+    .join(' ')
+    .split(/\s@\w+|^@\w+/)[0]
+    .trim();
+  return text || undefined;
+};
+
+const literalValue = (node: any): { value: any } | null => {
+  if (!node) return null;
+  if (node.type === 'StringLiteral' || node.type === 'NumericLiteral' || node.type === 'BooleanLiteral') return { value: node.value };
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) return { value: node.quasis[0].value.cooked };
+  if (node.type === 'UnaryExpression' && node.operator === '-' && node.argument.type === 'NumericLiteral') return { value: -node.argument.value };
+  return null;
+};
+
+const typeOfValue = (value: any): PropDefinition['type'] | null =>
+  typeof value === 'string' ? 'string' : typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : null;
+
+type PropType = Pick<PropDefinition, 'type' | 'options'>;
+
+/**
+ * Maps a TypeScript type to one the Playground can edit: primitives as they are, unions of
+ * literals to `enum`, and React nodes to `string` so `children` can be typed in. Null otherwise.
+ */
+const mapTsType = (node: any, scope: ModuleScope, seen = new Set<string>()): PropType | null => {
+  switch (node?.type) {
+    case 'TSStringKeyword': return { type: 'string' };
+    case 'TSNumberKeyword': return { type: 'number' };
+    case 'TSBooleanKeyword': return { type: 'boolean' };
+    case 'TSParenthesizedType': return mapTsType(node.typeAnnotation, scope, seen);
+    case 'TSLiteralType': {
+      const literal = literalValue(node.literal);
+      if (!literal) return null;
+      return typeof literal.value === 'boolean' ? { type: 'boolean' } : { type: 'enum', options: [String(literal.value)] };
+    }
+    case 'TSUnionType': {
+      const members = node.types
+        .filter((t: any) => t.type !== 'TSUndefinedKeyword' && t.type !== 'TSNullKeyword')
+        .map((t: any) => mapTsType(t, scope, seen));
+      if (members.length === 0 || members.some((m: PropType | null) => !m)) return null;
+      if (members.every((m: PropType) => m.type === 'boolean')) return { type: 'boolean' };
+      if (members.length === 1) return members[0];
+      if (!members.every((m: PropType) => m.type === 'enum')) return null;
+      return { type: 'enum', options: Array.from(new Set(members.flatMap((m: PropType) => m.options!))) };
+    }
+    case 'TSTypeReference': {
+      const name = referenceName(node.typeName);
+      if (name && REACT_NODE_TYPES.has(name)) return { type: 'string' };
+      const alias = name && scope.types.get(name);
+      if (!alias || alias.type !== 'TSTypeAliasDeclaration' || seen.has(name)) return null;
+      return mapTsType(alias.typeAnnotation, scope, new Set(seen).add(name));
+    }
+    default: return null;
+  }
+};
+
+// The members of an object type, following local interfaces, aliases, `extends` and intersections
+const typeMembers = (node: any, scope: ModuleScope, seen = new Set<string>()): any[] => {
+  switch (node?.type) {
+    case 'TSTypeLiteral': return node.members;
+    case 'TSParenthesizedType': return typeMembers(node.typeAnnotation, scope, seen);
+    case 'TSIntersectionType': return node.types.flatMap((t: any) => typeMembers(t, scope, seen));
+    case 'TSTypeReference': {
+      const name = referenceName(node.typeName);
+      // Readonly<Props>, PropsWithChildren<Props> and the like
+      if (!scope.types.has(name!) && node.typeParameters?.params.length === 1) return typeMembers(node.typeParameters.params[0], scope, seen);
+      const declaration = name && scope.types.get(name);
+      if (!declaration || seen.has(name)) return [];
+      const next = new Set(seen).add(name);
+      if (declaration.type === 'TSTypeAliasDeclaration') return typeMembers(declaration.typeAnnotation, scope, next);
+      const inherited = (declaration.extends ?? []).flatMap((h: any) =>
+        typeMembers({ type: 'TSTypeReference', typeName: h.expression, typeParameters: h.typeParameters }, scope, next));
+      return [...inherited, ...declaration.body.body];
+    }
+    default: return [];
+  }
+};
+
+const propsFromType = (node: any, scope: ModuleScope): PropDefinition[] =>
+  typeMembers(node, scope).flatMap(member => {
+    const name = member.type === 'TSPropertySignature' ? keyName(member.key) : null;
+    const mapped = name ? mapTsType(member.typeAnnotation?.typeAnnotation, scope) : null;
+    return mapped ? [{ name: name!, ...mapped, defaultValue: undefined, description: readDoc(member.leadingComments) }] : [];
+  });
+
+// `PropTypes.string`, `PropTypes.oneOf([...])`, optionally followed by `.isRequired`
+const mapPropType = (node: any): PropType | null => {
+  if (node?.type === 'MemberExpression' && keyName(node.property) === 'isRequired') return mapPropType(node.object);
+  if (node?.type === 'CallExpression' && referenceName(node.callee) === 'oneOf' && node.arguments[0]?.type === 'ArrayExpression') {
+    const values = node.arguments[0].elements.map(literalValue);
+    if (values.length === 0 || values.some((v: any) => !v)) return null;
+    return { type: 'enum', options: values.map((v: { value: any }) => String(v.value)) };
+  }
+  switch (node?.type === 'MemberExpression' ? keyName(node.property) : null) {
+    case 'string': case 'node': return { type: 'string' };
+    case 'number': return { type: 'number' };
+    case 'bool': return { type: 'boolean' };
+    default: return null;
+  }
+};
+
+const propsFromPropTypes = (node: any): PropDefinition[] =>
+  node?.type !== 'ObjectExpression' ? [] : node.properties.flatMap((p: any) => {
+    const name = p.type === 'ObjectProperty' ? keyName(p.key) : null;
+    const mapped = name ? mapPropType(p.value) : null;
+    return mapped ? [{ name: name!, ...mapped, defaultValue: undefined, description: readDoc(p.leadingComments) }] : [];
+  });
+
+const literalDefaults = (node: any) => {
+  const defaults = new Map<string, any>();
+  if (node?.type !== 'ObjectExpression') return defaults;
+  node.properties.forEach((p: any) => {
+    const name = p.type === 'ObjectProperty' ? keyName(p.key) : null;
+    const literal = literalValue(p.value);
+    if (name && literal) defaults.set(name, literal.value);
+  });
+  return defaults;
+};
+
+// `({ size = 'md', ...rest }: Props)` gives both the props type and the defaults
+const readPropsParam = (param: any) => {
+  const pattern = param?.type === 'AssignmentPattern' ? param.left : param;
+  const defaults = new Map<string, any>();
+  if (pattern?.type === 'ObjectPattern') {
+    pattern.properties.forEach((p: any) => {
+      const name = p.type === 'ObjectProperty' ? keyName(p.key) : null;
+      const literal = p.value?.type === 'AssignmentPattern' ? literalValue(p.value.right) : null;
+      if (name && literal) defaults.set(name, literal.value);
+    });
+  }
+  return { type: pattern?.typeAnnotation?.typeAnnotation, defaults };
+};
+
+// `memo(forwardRef(...))` down to the function inside, with any props type given to forwardRef
+const unwrap = (node: any): { fn: any; propsType?: any } | null => {
+  if (node?.type === 'TSAsExpression' || node?.type === 'TSSatisfiesExpression') return unwrap(node.expression);
+  if (node?.type === 'ArrowFunctionExpression' || node?.type === 'FunctionExpression' || node?.type === 'FunctionDeclaration') return { fn: node };
+  if (node?.type === 'CallExpression' && WRAPPERS.has(referenceName(node.callee)!)) {
+    const inner = unwrap(node.arguments[0]);
+    const params = node.typeParameters?.params ?? [];
+    const propsType = referenceName(node.callee) === 'forwardRef' ? params[1] : params[0];
+    return inner && { fn: inner.fn, propsType: inner.propsType ?? propsType };
+  }
+  return null;
+};
+
+const isComponentClass = (node: any) =>
+  (node?.type === 'ClassDeclaration' || node?.type === 'ClassExpression') && COMPONENT_CLASSES.has(referenceName(node.superClass)!);
+
+const mergeProps = (lists: PropDefinition[][], defaults: Map<string, any>): PropDefinition[] => {
+  const props = new Map<string, PropDefinition>();
+  lists.flat().forEach(p => { if (!props.has(p.name)) props.set(p.name, p); });
+  // A destructured default is the only hint some props get
+  defaults.forEach((value, name) => {
+    const existing = props.get(name);
+    const type = typeOfValue(value);
+    if (existing) props.set(name, { ...existing, defaultValue: existing.type === 'enum' ? String(value) : value });
+    else if (type) props.set(name, { name, type, defaultValue: value });
+  });
+  return Array.from(props.values());
+};
+
+const describeComponent = (name: string, declaration: { node: any; comments: any[] }, scope: ModuleScope): ComponentMetadata | null => {
+  const { node, comments } = declaration;
+  const description = readDoc(comments);
+  const staticMember = (key: string) => node.body?.body?.find((m: any) => m.static && keyName(m.key) === key)?.value;
+
+  if (isComponentClass(node)) {
+    const propsType = node.superTypeParameters?.params[0];
+    const defaults = new Map([...literalDefaults(staticMember('defaultProps')), ...literalDefaults(scope.defaultProps.get(name))]);
+    const lists = [propsFromType(propsType, scope), propsFromPropTypes(staticMember('propTypes')), propsFromPropTypes(scope.propTypes.get(name))];
+    return { name, description, props: mergeProps(lists, defaults) };
+  }
+
+  const declared = node.type === 'VariableDeclarator' ? node.init : node;
+  const unwrapped = unwrap(declared);
+  if (!unwrapped) return null;
+  const param = readPropsParam(unwrapped.fn.params[0]);
+  // `const Button: React.FC<ButtonProps> = ...`
+  const annotation = node.type === 'VariableDeclarator' ? node.id.typeAnnotation?.typeAnnotation : null;
+  const annotated = annotation?.type === 'TSTypeReference' ? annotation.typeParameters?.params[0] : null;
+  const propsType = param.type ?? unwrapped.propsType ?? annotated;
+  const defaults = new Map([...param.defaults, ...literalDefaults(scope.defaultProps.get(name))]);
+  const lists = [propsFromType(propsType, scope), propsFromPropTypes(scope.propTypes.get(name))];
+  return { name, description, props: mergeProps(lists, defaults) };
+};
+
+// `Button.propTypes = {...}` and `Button.defaultProps = {...}`
+const readStaticAssignment = (statement: any, scope: ModuleScope) => {
+  const expression = statement.type === 'ExpressionStatement' ? statement.expression : null;
+  if (expression?.type !== 'AssignmentExpression' || expression.left.type !== 'MemberExpression') return;
+  const target = expression.left.object.type === 'Identifier' ? expression.left.object.name : null;
+  const key = keyName(expression.left.property);
+  if (!target) return;
+  if (key === 'propTypes') scope.propTypes.set(target, expression.right);
+  if (key === 'defaultProps') scope.defaultProps.set(target, expression.right);
+};
+
+const readModuleScope = (body: any[]): ModuleScope => {
+  const scope: ModuleScope = { types: new Map(), values: new Map(), propTypes: new Map(), defaultProps: new Map(), exports: new Map() };
+
+  const declare = (declaration: any, comments: any[], exported: boolean) => {
+    if (!declaration) return;
+    if (declaration.type === 'TSInterfaceDeclaration' || declaration.type === 'TSTypeAliasDeclaration') {
+      scope.types.set(declaration.id.name, declaration);
+      return;
+    }
+    const targets = declaration.type === 'VariableDeclaration'
+      ? declaration.declarations.filter((d: any) => d.id.type === 'Identifier')
+      : declaration.id ? [declaration] : [];
+    targets.forEach((node: any) => {
+      scope.values.set(node.id.name, { node, comments });
+      if (exported) scope.exports.set(node.id.name, node.id.name);
+    });
+  };
+
+  body.forEach(statement => {
+    const comments = statement.leadingComments ?? [];
+    if (statement.type === 'ExportNamedDeclaration') {
+      if (statement.source) return;
+      declare(statement.declaration, comments, true);
+      statement.specifiers?.forEach((s: any) => {
+        if (s.type === 'ExportSpecifier' && s.exportKind !== 'type') scope.exports.set(s.local.name, keyName(s.exported)!);
+      });
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      const declaration = statement.declaration;
+      if (declaration.type === 'Identifier') {
+        scope.exports.set(declaration.name, declaration.name);
+      } else if (declaration.id) {
+        declare(declaration, comments, true);
+      } else if (declaration.type === 'CallExpression') {
+        // `export default memo(Button)`
+        const wrapped = declaration.arguments[0];
+        if (WRAPPERS.has(referenceName(declaration.callee)!) && wrapped?.type === 'Identifier') scope.exports.set(wrapped.name, wrapped.name);
+      }
+    } else {
+      if (/Declaration$/.test(statement.type)) declare(statement, comments, false);
+      readStaticAssignment(statement, scope);
+    }
+  });
+  return scope;
+};
+
+/**
+ * Finds the components a script exports, without a network round trip: exported function, arrow
+ * and class components whose name starts with a capital, with props read from their TypeScript
+ * types, PropTypes and destructured defaults. Throws when the file does not parse.
+ */
+export const discoverModuleComponents = (Babel: any, file: FileEntry): ComponentMetadata[] => {
+  let body: any[] = [];
+  Babel.transform(file.content, {
+    filename: getModuleId(file),
+    // Parsed only: the typescript preset would strip the types this reads before it got to them
+    parserOpts: { plugins: /\.(ts|mts|cts)$/i.test(file.name) ? ['typescript'] : /\.tsx$/i.test(file.name) ? ['typescript', 'jsx'] : ['jsx'] },
+    plugins: [() => ({ visitor: { Program(path: any) { body = path.node.body; } } })],
+    sourceType: 'unambiguous',
+    code: false,
+  });
+  const scope = readModuleScope(body);
+  const components: ComponentMetadata[] = [];
+  scope.exports.forEach((exported, local) => {
+    const declaration = scope.values.get(local);
+    if (!declaration || !isComponentName(local)) return;
+    const component = describeComponent(local, declaration, scope);
+    // The Playground looks components up by their own name, which default exports keep
+    if (component) components.push(exported === 'default' ? component : { ...component, name: exported });
+  });
+  return components;
+};
+
+/**
+ * Fills in what the static pass could not know from components a model described: descriptions,
+ * and props whose types it could not map. Components the model made up are left out, since the
+ * Playground can only render what the workspace exports.
+ */
+export const enrichComponents = (components: ComponentMetadata[], suggested: ComponentMetadata[]): ComponentMetadata[] =>
+  components.map(component => {
+    const match = suggested.find(s => s.name === component.name);
+    if (!match) return component;
+    const known = new Set(component.props.map(p => p.name));
+    const props = component.props.map(p => {
+      const hint = match.props?.find(s => s.name === p.name);
+      return p.description || !hint?.description ? p : { ...p, description: hint.description };
+    });
+    const extra = (match.props ?? []).filter(p => !known.has(p.name) && ['string', 'number', 'boolean', 'enum'].includes(p.type));
+    return { ...component, description: component.description || match.description, props: [...props, ...extra] };
+  });
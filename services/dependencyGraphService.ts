@@ -0,0 +1,116 @@
+import { FileEntry, DependencyGraph } from '../types';
+import { collectModuleInfo, getModuleId, isRelativeSpecifier, isScriptFile, resolveImport, ImportedNames } from './bundlerService';
+
+const scanImports = (Babel: any, file: FileEntry): ImportedNames => {
+  const imports: ImportedNames = new Map();
+  Babel.transform(file.content, {
+    filename: getModuleId(file),
+    presets: /\.(ts|tsx|mts|cts)$/i.test(file.name) ? ['typescript'] : [],
+    plugins: ['syntax-jsx', collectModuleInfo(imports, new Set())],
+    sourceType: 'unambiguous',
+    code: false,
+  });
+  return imports;
+};
+
+// Tarjan's strongly connected components; every component with more than one module is a cycle
+const findCycles = (nodes: string[], adjacency: Map<string, string[]>) => {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const strongConnect = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+    for (const next of adjacency.get(id) ?? []) {
+      if (!indices.has(next)) {
+        strongConnect(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    }
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      const selfImport = adjacency.get(id)?.includes(id);
+      if (component.length > 1 || selfImport) cycles.push(component.reverse());
+    }
+  };
+
+  nodes.forEach(id => { if (!indices.has(id)) strongConnect(id); });
+  return cycles;
+};
+
+export const findReachable = (graph: DependencyGraph, entry: string) => {
+  const reachable = new Set<string>([entry]);
+  const queue = [entry];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    graph.edges.filter(e => e.from === id).forEach(e => {
+      if (!reachable.has(e.to)) {
+        reachable.add(e.to);
+        queue.push(e.to);
+      }
+    });
+  }
+  return reachable;
+};
+
+/**
+ * Parses every script in the workspace and resolves its import, export-from, require() and
+ * dynamic import() specifiers into edges between workspace files.
+ */
+export const buildDependencyGraph = async (files: FileEntry[]): Promise<DependencyGraph> => {
+  const Babel = await import('@babel/standalone');
+  const moduleIds = new Set(files.map(getModuleId));
+  const graph: DependencyGraph = { nodes: [], edges: [], unresolved: [], externals: [], cycles: [], orphans: [], parseErrors: [] };
+  const externals = new Set<string>();
+  const adjacency = new Map<string, string[]>();
+  const included = new Set<string>();
+
+  for (const file of files.filter(f => isScriptFile(f.name))) {
+    const id = getModuleId(file);
+    included.add(id);
+    let imports: ImportedNames;
+    try {
+      imports = scanImports(Babel, file);
+    } catch (err) {
+      graph.parseErrors.push({ id, message: (err as Error).message.split('\n')[0] });
+      continue;
+    }
+    for (const specifier of imports.keys()) {
+      const resolved = resolveImport(id, specifier, moduleIds);
+      if (resolved) {
+        graph.edges.push({ from: id, to: resolved, specifier });
+        adjacency.set(id, [...(adjacency.get(id) ?? []), resolved]);
+        included.add(resolved);
+      } else if (isRelativeSpecifier(specifier)) {
+        graph.unresolved.push({ from: id, specifier });
+      } else {
+        externals.add(specifier);
+      }
+    }
+  }
+
+  graph.nodes = files
+    .filter(f => included.has(getModuleId(f)))
+    .map(f => ({ id: getModuleId(f), size: f.size, isScript: isScriptFile(f.name) }));
+  graph.externals = Array.from(externals).sort();
+  graph.cycles = findCycles(graph.nodes.map(n => n.id), adjacency);
+
+  const imported = new Set(graph.edges.map(e => e.to));
+  graph.orphans = graph.nodes.filter(n => n.isScript && !imported.has(n.id)).map(n => n.id);
+  return graph;
+};
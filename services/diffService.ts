@@ -0,0 +1,39 @@
+export interface DiffPart {
+  count?: number;
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export const computeLineDiff = async (original: string, modified: string): Promise<DiffPart[]> => {
+  // @ts-ignore
+  const Diff = await import('diff');
+  return Diff.diffLines(original, modified);
+};
+
+/**
+ * Numbers the hunks of a line diff. A hunk is a run of changed parts (a removal, an addition,
+ * or a removal immediately replaced by an addition); unchanged parts get null.
+ */
+export const getHunkIds = (parts: DiffPart[]): (number | null)[] => {
+  let hunk = -1;
+  return parts.map((part, i) => {
+    if (!part.added && !part.removed) return null;
+    const continuesHunk = part.added && parts[i - 1]?.removed;
+    if (!continuesHunk) hunk++;
+    return hunk;
+  });
+};
+
+export const countHunks = (parts: DiffPart[]) => getHunkIds(parts).reduce<number>((max, id) => id === null ? max : Math.max(max, id + 1), 0);
+
+// Rebuilds the text keeping the modified side only for accepted hunks
+export const applyHunks = (parts: DiffPart[], accepted: Set<number>) => {
+  const hunkIds = getHunkIds(parts);
+  return parts.map((part, i) => {
+    const hunk = hunkIds[i];
+    if (hunk === null) return part.value;
+    if (part.added) return accepted.has(hunk) ? part.value : '';
+    return accepted.has(hunk) ? '' : part.value;
+  }).join('');
+};
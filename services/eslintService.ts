@@ -1,39 +1,306 @@
-import { Linter } from 'eslint';
+import { Linter, Rule } from 'eslint';
+import { FileEntry, LintConfig } from '../types';
 
 const linter = new Linter();
 
-export const performStaticLint = (code: string) => {
+// DOM globals the lint worker's own global scope does not have
+const BROWSER_GLOBALS = [
+  'window', 'document', 'location', 'history', 'localStorage', 'sessionStorage', 'alert', 'confirm', 'prompt',
+  'requestAnimationFrame', 'cancelAnimationFrame', 'requestIdleCallback', 'getComputedStyle', 'matchMedia', 'screen',
+  'innerWidth', 'innerHeight', 'scrollTo', 'scrollX', 'scrollY', 'open', 'parent', 'top', 'frames', 'customElements',
+  'HTMLElement', 'HTMLInputElement', 'HTMLCanvasElement', 'Element', 'Node', 'NodeList', 'DocumentFragment',
+  'MouseEvent', 'KeyboardEvent', 'CustomEvent', 'MutationObserver', 'ResizeObserver', 'IntersectionObserver',
+  'DOMParser', 'Image', 'Audio', 'Option', 'getSelection',
+];
+
+const BASE_GLOBALS: Record<string, 'readonly'> = Object.fromEntries(
+  [...Object.getOwnPropertyNames(globalThis), ...BROWSER_GLOBALS].map(name => [name, 'readonly'])
+);
+
+const TS_FILE = /\.(ts|tsx|mts|cts)$/i;
+// ESLint's own limit on how often verifyAndFix re-lints a file
+const MAX_FIX_PASSES = 10;
+
+type SourceType = 'module' | 'commonjs';
+
+const sourceTypeOf = (file: FileEntry): SourceType => /\.cjs$/i.test(file.name) ? 'commonjs' : 'module';
+
+const toFlatConfig = (config: LintConfig, sourceType: SourceType): Linter.Config => ({
+  languageOptions: {
+    ecmaVersion: 'latest',
+    sourceType,
+    parserOptions: { ecmaFeatures: { jsx: true } },
+    globals: { ...BASE_GLOBALS, ...config.globals },
+  },
+  rules: config.rules,
+});
+
+export const performStaticLint = (code: string, config: LintConfig, sourceType: SourceType = 'module'): Linter.LintMessage[] => {
   try {
-    // Basic browser-friendly ESLint configuration
-    const config: any = {
-      rules: {
-        'no-unused-vars': 'warn',
-        'no-undef': 'error',
-        'no-console': 'warn',
-        'semi': ['error', 'always'],
-        'eqeqeq': 'warn',
-        'curly': 'error',
-        'no-debugger': 'error',
-        'no-const-assign': 'error',
-        'no-dupe-keys': 'error',
-      },
-      env: {
-        browser: true,
-        es6: true,
-      },
-      parserOptions: {
-        ecmaVersion: 2021,
-        sourceType: 'module',
-        ecmaFeatures: {
-          jsx: true
-        }
-      }
-    };
-
-    const messages = linter.verify(code, config);
-    return messages;
+    return linter.verify(code, toFlatConfig(config, sourceType));
   } catch (error) {
+    // Usually a rule name or option the config got wrong; report it instead of passing silently
     console.error('ESLint execution failed:', error);
-    return [];
+    return [{
+      line: 1,
+      column: 1,
+      severity: 2,
+      message: `ESLint could not run: ${(error as Error).message.replace(/\s+/g, ' ').trim()}`,
+      ruleId: null,
+      fatal: true,
+    }];
+  }
+};
+
+// TypeScript that compiles to code of its own; blanking it out would change what the file does
+class RuntimeTypeScriptError extends Error {}
+
+const CLASS_MODIFIERS = /\b(public|private|protected|readonly|abstract|override|declare)\b/g;
+
+/**
+ * Overwrites TypeScript-only syntax (annotations, interfaces, `as` casts, modifiers...) with spaces so
+ * espree can parse the file while every line and column stays where it is in the original.
+ * Throws RuntimeTypeScriptError for enums, namespaces and `import =`, which have no JavaScript spelling.
+ */
+const blankTypeScript = (Babel: any, file: FileEntry) => {
+  const source = file.content;
+  // `declare const X` and friends describe globals that exist at runtime
+  const ambientGlobals: Record<string, 'readonly'> = {};
+  // Parameter properties are assigned to `this`, so they are never unused; "line:column" of each
+  const parameterProperties = new Set<string>();
+  // UTF-16 units, like Babel's offsets
+  const chars = source.split('');
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end; i++) if (chars[i] !== '\n' && chars[i] !== '\r') chars[i] = ' ';
+  };
+  const blankNode = (path: any) => {
+    // `export interface ...` and friends go away together with their export keyword
+    const target = path.parentPath?.isExportNamedDeclaration() || path.parentPath?.isExportDefaultDeclaration() ? path.parentPath : path;
+    blank(target.node.start, target.node.end);
+    target.skip();
+  };
+  const blankAfter = (node: any, char: string) => {
+    const at = source.indexOf(char, node.end);
+    if (at !== -1 && !source.substring(node.end, at).trim()) blank(at, at + 1);
+  };
+  // Drops one entry of a specifier or parameter list along with the comma that separates it
+  const blankListItem = (list: any[], node: any) => {
+    const index = list.indexOf(node);
+    if (index < list.length - 1) blank(node.start, list[index + 1].start);
+    else if (index > 0) blank(list[index - 1].end, node.end);
+    else blank(node.start, node.end);
+  };
+  const blankModifiers = (start: number, end: number) => {
+    source.substring(start, end).replace(CLASS_MODIFIERS, (word, _, offset: number) => {
+      blank(start + offset, start + offset + word.length);
+      return word;
+    });
+  };
+
+  Babel.transform(source, {
+    filename: file.path,
+    code: false,
+    sourceType: 'unambiguous',
+    parserOpts: { plugins: /\.tsx$/i.test(file.name) ? ['typescript', 'jsx'] : ['typescript'] },
+    plugins: [() => ({
+      visitor: {
+        'TSTypeAnnotation|TSTypeParameterDeclaration|TSTypeParameterInstantiation|TSIndexSignature'(path: any) {
+          blank(path.node.start, path.node.end);
+          path.skip();
+        },
+        'TSInterfaceDeclaration|TSTypeAliasDeclaration|TSDeclareMethod'(path: any) {
+          blankNode(path);
+        },
+        'TSEnumDeclaration|TSModuleDeclaration'(path: any) {
+          if (!path.node.declare) throw new RuntimeTypeScriptError();
+          blankNode(path);
+        },
+        'TSImportEqualsDeclaration|TSExportAssignment'(path: any) {
+          if (path.node.importKind === 'type') blankNode(path);
+          else throw new RuntimeTypeScriptError();
+        },
+        // Overload signatures are TSDeclareFunction too, but only `declare function` introduces a global
+        'VariableDeclaration|ClassDeclaration|TSDeclareFunction'(path: any) {
+          if (!path.node.declare && !path.isTSDeclareFunction()) return;
+          const ids = path.isVariableDeclaration() ? path.node.declarations.map((d: any) => d.id) : [path.node.id];
+          if (path.node.declare) ids.forEach((id: any) => { if (id?.name) ambientGlobals[id.name] = 'readonly'; });
+          blankNode(path);
+        },
+        ImportDeclaration(path: any) {
+          if (path.node.importKind === 'type') blankNode(path);
+        },
+        ExportNamedDeclaration(path: any) {
+          if (path.node.exportKind === 'type') blankNode(path);
+        },
+        'ImportSpecifier|ExportSpecifier'(path: any) {
+          if (path.node.importKind === 'type' || path.node.exportKind === 'type') blankListItem(path.parentPath.node.specifiers, path.node);
+        },
+        'TSAsExpression|TSSatisfiesExpression'(path: any) {
+          const keyword = path.isTSAsExpression() ? 'as' : 'satisfies';
+          blank(source.lastIndexOf(keyword, path.node.typeAnnotation.start), path.node.end);
+        },
+        TSTypeAssertion(path: any) {
+          blank(path.node.start, source.indexOf('>', path.node.typeAnnotation.end) + 1);
+        },
+        TSNonNullExpression(path: any) {
+          blank(path.node.end - 1, path.node.end);
+        },
+        TSParameterProperty(path: any) {
+          blank(path.node.start, path.node.parameter.start);
+          const id = path.node.parameter.left ?? path.node.parameter;
+          parameterProperties.add(`${id.loc.start.line}:${id.loc.start.column + 1}`);
+        },
+        Identifier(path: any) {
+          if (path.node.optional && path.listKey === 'params') blankAfter({ end: path.node.start + path.node.name.length }, '?');
+          // A `this` parameter only types the receiver
+          if (path.node.name === 'this' && path.listKey === 'params') blankListItem(path.container, path.node);
+        },
+        'ClassProperty|ClassPrivateProperty|ClassMethod|ClassPrivateMethod|ClassAccessorProperty'(path: any) {
+          const { node } = path;
+          if (node.abstract || node.declare) {
+            blank(node.start, node.end);
+            path.skip();
+            return;
+          }
+          blankModifiers(node.start, node.key.start);
+          if (node.optional) blankAfter(node.key, '?');
+          if (node.definite) blankAfter(node.key, '!');
+        },
+        'ClassDeclaration|ClassExpression'(path: any) {
+          const { node } = path;
+          if (node.abstract) blankModifiers(node.start, source.indexOf('class', node.start));
+          if (node.implements?.length) {
+            const keyword = source.lastIndexOf('implements', node.implements[0].start);
+            blank(keyword, node.implements[node.implements.length - 1].end);
+          }
+        },
+      },
+    })],
+  });
+  return { code: chars.join(''), ambientGlobals, parameterProperties };
+};
+
+// Fallback for files blanking cannot handle: Babel strips the types, keeping each statement on its line
+const transpileTypeScript = (Babel: any, file: FileEntry): string => Babel.transform(file.content, {
+  filename: file.path,
+  presets: [['typescript', { isTSX: /\.tsx$/i.test(file.name), allExtensions: true, allowDeclareFields: true }]],
+  plugins: /\.tsx$/i.test(file.name) ? ['syntax-jsx'] : [],
+  sourceType: 'unambiguous',
+  retainLines: true,
+  comments: true,
+}).code;
+
+// Shrinks a fix to the part of its range it actually changes; some rules rewrite a whole statement
+const narrowFix = (code: string, { range: [start, end], text }: Rule.Fix): Rule.Fix => {
+  const original = code.substring(start, end);
+  let prefix = 0;
+  while (prefix < original.length && prefix < text.length && original[prefix] === text[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < original.length - prefix && suffix < text.length - prefix
+    && original[original.length - 1 - suffix] === text[text.length - 1 - suffix]) suffix++;
+  return { range: [start + prefix, end - suffix], text: text.substring(prefix, text.length - suffix) };
+};
+
+// Whether a fix in blanked TypeScript could land in the wrong place once copied onto the original
+const touchesBlankedCode = (original: string, blanked: string, [start, end]: [number, number]) => {
+  const isBlanked = (i: number) => blanked[i] !== original[i];
+  for (let i = start; i < end; i++) if (isBlanked(i)) return true;
+  // A replacement stays within real code; an insertion next to a type may belong on its other side
+  if (start < end) return false;
+  let before = start - 1;
+  while (before >= 0 && /\s/.test(original[before])) before--;
+  let after = end;
+  while (after < original.length && /\s/.test(original[after])) after++;
+  return (before >= 0 && isBlanked(before)) || (after < original.length && isBlanked(after));
+};
+
+// Fixes for blanked code are narrowed and kept only where they are safe to apply to the original
+const mapFixToOriginal = (original: string, blanked: string, message: Linter.LintMessage): Linter.LintMessage => {
+  if (!message.fix) return message;
+  const fix = narrowFix(blanked, message.fix);
+  const { fix: _, ...rest } = message;
+  return touchesBlankedCode(original, blanked, fix.range) ? rest : { ...rest, fix };
+};
+
+// Offsets in transpiled code do not match the original, so its fixes cannot be used
+const withoutFix = ({ fix, ...message }: Linter.LintMessage): Linter.LintMessage => message;
+
+const lintTypeScript = (Babel: any, file: FileEntry, config: LintConfig, sourceType: SourceType): Linter.LintMessage[] => {
+  let blanked: ReturnType<typeof blankTypeScript>;
+  try {
+    blanked = blankTypeScript(Babel, file);
+  } catch (err) {
+    if (!(err instanceof RuntimeTypeScriptError)) {
+      // A syntax error; report it the way ESLint reports its own parse failures
+      const loc = (err as any).loc;
+      const reason = (err as Error).message.split('\n')[0].replace(/^.*?: /, '').replace(/ \(\d+:\d+\)$/, '');
+      return [{ line: loc?.line ?? 1, column: (loc?.column ?? 0) + 1, severity: 2, message: `Parsing error: ${reason}`, ruleId: null, fatal: true }];
+    }
+    return performStaticLint(transpileTypeScript(Babel, file), config, sourceType).map(withoutFix);
+  }
+
+  const messages = performStaticLint(blanked.code, { ...config, globals: { ...blanked.ambientGlobals, ...config.globals } }, sourceType);
+  // Blanking left something espree cannot parse; the transpiled code still lints line by line
+  if (messages.some(m => m.fatal)) return performStaticLint(transpileTypeScript(Babel, file), config, sourceType).map(withoutFix);
+  return messages
+    .filter(m => m.ruleId !== 'no-unused-vars' || !blanked.parameterProperties.has(`${m.line}:${m.column}`))
+    .map(m => mapFixToOriginal(file.content, blanked.code, m));
+};
+
+// The bundler compiles JSX with the classic runtime, so an imported React is used by every element
+const isJsxPragmaImport = (message: Linter.LintMessage) => message.ruleId === 'no-unused-vars' && message.message.startsWith("'React' ");
+
+/**
+ * Lints one workspace file in its original form. TypeScript is parsed by Babel and reduced
+ * to JavaScript first, so the positions reported (and the ranges of any fixes) match the file as written.
+ */
+export const lintSourceFile = (Babel: any, file: FileEntry, config: LintConfig): Linter.LintMessage[] => {
+  const sourceType = sourceTypeOf(file);
+  const messages = TS_FILE.test(file.name)
+    ? lintTypeScript(Babel, file, config, sourceType)
+    : performStaticLint(file.content, config, sourceType);
+  return messages.filter(m => !isJsxPragmaImport(m));
+};
+
+/**
+ * Applies ESLint's autofixes to a file and returns the new content. JavaScript goes through
+ * verifyAndFix. TypeScript is linted in its blanked form, whose offsets match the original, and the
+ * fixes are copied onto the original text; insertions next to blanked syntax are left out because they
+ * could land inside a type (a semicolon before `as Foo`, say).
+ */
+export const fixSourceFile = (Babel: any, file: FileEntry, config: LintConfig): string => {
+  const sourceType = sourceTypeOf(file);
+  if (!TS_FILE.test(file.name)) {
+    try {
+      return linter.verifyAndFix(file.content, toFlatConfig(config, sourceType)).output;
+    } catch (error) {
+      // Handing the file back unchanged would read as "nothing to fix"
+      throw new Error(`${file.path}: ${(error as Error).message}`);
+    }
+  }
+
+  let output = file.content;
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    let blanked: ReturnType<typeof blankTypeScript>;
+    try {
+      blanked = blankTypeScript(Babel, { ...file, content: output });
+    } catch (err) {
+      break;
+    }
+    const fixes = performStaticLint(blanked.code, { ...config, globals: { ...blanked.ambientGlobals, ...config.globals } }, sourceType)
+      .flatMap(m => m.fix ? [narrowFix(blanked.code, m.fix)] : [])
+      .filter(fix => !touchesBlankedCode(output, blanked.code, fix.range))
+      .sort((a, b) => a.range[0] - b.range[0] || a.range[1] - b.range[1]);
+    let result = '';
+    let last = 0;
+    for (const fix of fixes) {
+      // Overlaps a fix already taken; the next pass sees it again if it still applies
+      if (fix.range[0] < last) continue;
+      result += output.substring(last, fix.range[0]) + fix.text;
+      last = fix.range[1];
+    }
+    if (fixes.length === 0) break;
+    output = result + output.substring(last);
   }
-};
\ No newline at end of file
+  return output;
+};
@@ -0,0 +1,119 @@
+import { FileEntry } from '../types';
+import { findRootFiles } from './lintConfigService';
+
+// Prettier's own lookup order, limited to the formats that can be read without running code
+const CONFIG_FILE_NAMES = ['.prettierrc', '.prettierrc.json', '.prettierrc.yaml', '.prettierrc.yml', 'package.json'];
+
+export interface PrettierConfig {
+  options: Record<string, unknown>;
+  // Path of the file the options came from, or null for Prettier's defaults
+  source: string | null;
+}
+
+// Prettier parser for each extension and the plugins that provide it
+const LANGUAGES: { test: RegExp; parser: (name: string) => string; plugins: () => Promise<any[]> }[] = [
+  {
+    test: /\.(js|jsx|mjs|cjs)$/i,
+    parser: () => 'babel',
+    plugins: () => Promise.all([import('prettier/plugins/babel'), import('prettier/plugins/estree')]),
+  },
+  {
+    test: /\.(ts|tsx|mts|cts)$/i,
+    parser: () => 'typescript',
+    plugins: () => Promise.all([import('prettier/plugins/typescript'), import('prettier/plugins/estree')]),
+  },
+  {
+    test: /\.json$/i,
+    parser: () => 'json',
+    plugins: () => Promise.all([import('prettier/plugins/babel'), import('prettier/plugins/estree')]),
+  },
+  {
+    test: /\.(css|scss|less)$/i,
+    parser: name => name.split('.').pop()!.toLowerCase(),
+    plugins: () => Promise.all([import('prettier/plugins/postcss')]),
+  },
+  {
+    // Inline <script> and <style> blocks are formatted too, so HTML needs the other parsers
+    test: /\.(html|htm)$/i,
+    parser: () => 'html',
+    plugins: () => Promise.all([
+      import('prettier/plugins/html'),
+      import('prettier/plugins/postcss'),
+      import('prettier/plugins/babel'),
+      import('prettier/plugins/estree'),
+    ]),
+  },
+  {
+    test: /\.md$/i,
+    parser: () => 'markdown',
+    plugins: () => Promise.all([import('prettier/plugins/markdown')]),
+  },
+];
+
+export const canFormat = (name: string) => LANGUAGES.some(language => language.test.test(name));
+
+const parseScalar = (raw: string): unknown => {
+  const value = raw.replace(/\s+#.*$/, '').trim();
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^(['"]).*\1$/.test(value)) return value.slice(1, -1);
+  return value;
+};
+
+// .prettierrc may be JSON or YAML; only flat YAML mappings are understood, `overrides` is ignored
+const parseRc = (text: string): Record<string, unknown> => {
+  const trimmed = text.trim();
+  if (!trimmed) return {};
+  if (trimmed.startsWith('{')) return JSON.parse(trimmed);
+  const options: Record<string, unknown> = {};
+  let inOverrides = false;
+  for (const line of text.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    if (/^\s/.test(line)) {
+      if (inOverrides) continue;
+      throw new Error('nested YAML is not supported');
+    }
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) throw new Error(`cannot read "${line.trim()}"`);
+    inOverrides = match[1] === 'overrides';
+    if (!inOverrides) options[match[1]] = parseScalar(match[2]);
+  }
+  return options;
+};
+
+/**
+ * Reads the workspace's Prettier options from a root .prettierrc (JSON or YAML), .prettierrc.json
+ * or the `prettier` key of package.json. Throws when the file that applies cannot be parsed.
+ */
+export const loadPrettierConfig = (files: FileEntry[]): PrettierConfig => {
+  for (const file of findRootFiles(files, CONFIG_FILE_NAMES)) {
+    try {
+      if (file.name === 'package.json') {
+        const config = JSON.parse(file.content).prettier;
+        // A string points at a shared config package, which cannot be installed here
+        if (config && typeof config === 'object') return { options: config, source: `${file.path} (prettier)` };
+        continue;
+      }
+      const { overrides, ...options } = parseRc(file.content);
+      return { options, source: file.path };
+    } catch (err) {
+      throw new Error(`Could not read Prettier config "${file.path}": ${(err as Error).message}`);
+    }
+  }
+  return { options: {}, source: null };
+};
+
+/**
+ * Formats a file with Prettier; resolves to null when Prettier has no parser for its extension.
+ */
+export const formatWithPrettier = async (file: FileEntry, config: PrettierConfig): Promise<string | null> => {
+  const language = LANGUAGES.find(l => l.test.test(file.name));
+  if (!language) return null;
+  const [prettier, plugins] = await Promise.all([import('prettier'), language.plugins()]);
+  return prettier.format(file.content, {
+    ...config.options,
+    filepath: file.path,
+    parser: language.parser(file.name),
+    plugins,
+  });
+};
@@ -7,6 +7,8 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
+export const isGeminiConfigured = () => getAiClient() !== null;
+
 export const analyzeBundleWithGemini = async (code: string): Promise<string> => {
   const ai = getAiClient();
   if (!ai) throw new Error("API_KEY not configured.");
@@ -111,5 +113,56 @@ export const refactorBundleWithGemini = async (code: string, instruction: string
   });
   let res = response.text || "";
   if (res.startsWith("```")) res = res.replace(/^```[a-z]*\n/, '').replace(/\n```$/, '');
-  return res.trim();
-};
\ No newline at end of file
+  // An unchanged file must come back identical, final newline included
+  return code.endsWith('\n') ? `${res.trim()}\n` : res.trim();
+};
+
+const MAX_WORKSPACE_CHARS = 100000;
+
+/**
+ * Sends whole files only, up to the size limit: the model returns complete new content, so a
+ * file cut short would come back cut short. `skipped` lists the files that did not fit.
+ */
+export const refactorWorkspaceWithGemini = async (files: { path: string; content: string }[], instruction: string): Promise<{ changes: { path: string; content: string }[]; skipped: string[] }> => {
+  const ai = getAiClient();
+  if (!ai) throw new Error("API_KEY not configured.");
+  const model = 'gemini-3-pro-preview';
+  const sections: string[] = [];
+  const skipped: string[] = [];
+  let size = 0;
+  for (const f of files) {
+    const section = `--- FILE: ${f.path} ---\n${f.content}`;
+    if (size + section.length > MAX_WORKSPACE_CHARS) {
+      skipped.push(f.path);
+      continue;
+    }
+    sections.push(section);
+    size += section.length + 2;
+  }
+  if (sections.length === 0) throw new Error("No file fits in a single refactor request.");
+  const workspace = sections.join('\n\n');
+
+  const response = await ai.models.generateContent({
+    model,
+    config: {
+      systemInstruction: "You are an expert software engineer performing a refactor across a multi-file project. Return only the files you changed, each with its unchanged path and its complete new content.",
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            path: { type: Type.STRING },
+            content: { type: Type.STRING }
+          },
+          required: ["path", "content"]
+        }
+      }
+    },
+    contents: `Refactor the following project based on this instruction: ${instruction}\n\n${workspace}`
+  });
+
+  const jsonStr = response.text;
+  const changes = jsonStr ? JSON.parse(jsonStr) as { path: string; content: string }[] : [];
+  return { changes, skipped };
+};
@@ -0,0 +1,52 @@
+import { BundleSnapshot } from '../types';
+
+const STORAGE_KEY_HISTORY = 'bundle_blitz_history';
+// Written by builds before history existed; imported once as the first snapshot
+const LEGACY_STORAGE_KEY_CODE = 'bundle_blitz_code';
+export const MAX_SNAPSHOTS = 25;
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const loadHistory = (): BundleSnapshot[] => {
+  const saved = localStorage.getItem(STORAGE_KEY_HISTORY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    } catch (e) {}
+  }
+
+  const legacyCode = localStorage.getItem(LEGACY_STORAGE_KEY_CODE);
+  if (!legacyCode) return [];
+  return [{
+    id: 'legacy',
+    timestamp: Date.now(),
+    code: legacyCode,
+    settings: { bundleType: 'JS', format: 'iife', mode: 'development', entry: null, transpile: true, sourceMaps: false, preserveLicenseComments: true },
+    stats: { totalSize: legacyCode.length, fileCount: 0, linesOfCode: legacyCode.split('\n').length },
+    sizes: null,
+    modules: [],
+  }];
+};
+
+/**
+ * Persists snapshots newest first. When the browser's storage quota is hit the oldest
+ * snapshots are dropped until the rest fit; returns what was actually kept.
+ */
+export const saveHistory = (history: BundleSnapshot[]): BundleSnapshot[] => {
+  let kept = history.slice(0, MAX_SNAPSHOTS);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(kept));
+      localStorage.removeItem(LEGACY_STORAGE_KEY_CODE);
+      return kept;
+    } catch (err) {
+      if (!isQuotaError(err)) throw err;
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY_HISTORY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY_CODE);
+  return kept;
+};
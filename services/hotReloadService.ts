@@ -0,0 +1,110 @@
+import { FileEntry } from '../types';
+import { ImportMap } from './importMapService';
+import type { HotUpdate } from './previewBridgeService';
+
+export const isPreviewPage = (f: FileEntry) => /\.(html|htm)$/i.test(f.name);
+export const isPreviewStyle = (f: FileEntry) => /\.(css|scss|less)$/i.test(f.name);
+export const isPreviewScript = (f: FileEntry) => /\.(js|ts|jsx|tsx|mjs)$/i.test(f.name);
+
+const isPreviewFile = (f: FileEntry) => isPreviewPage(f) || isPreviewStyle(f) || isPreviewScript(f);
+
+// What a preview document is built from
+export interface PreviewSources {
+  files: FileEntry[];
+  importMap: ImportMap;
+}
+
+export type PreviewChange =
+  | { type: 'none' }
+  | { type: 'reload' }
+  | { type: 'hot'; update: HotUpdate };
+
+// Preview scripts share one module scope, so a name declared at the top of one file is visible to
+// the others. Declarations are only looked for at the start of a line, where top-level code sits.
+const TOP_LEVEL_DECLARATION = /^(?:export\s+(?:default\s+)?)?(?:async\s+)?(?:function\s*\*?|class|const|let|var)\s*([A-Za-z_$][\w$]*)/gm;
+
+// `import React, { useState as useLocalState } from 'react'`; a bare `import 'x'` binds nothing
+const IMPORT_CLAUSE = /^import\s+(?!type\s)([^'";]+?)\s+from\s*['"]/gm;
+
+// Mounting a root again would replace the running one, and its state with it
+const MOUNTS_ROOT = /\b(?:createRoot|hydrateRoot)\s*\(|\bReactDOM\.render\s*\(/;
+
+const isComponentName = (name: string) => /^[A-Z]/.test(name);
+
+const declaredNames = (code: string) => Array.from(code.matchAll(TOP_LEVEL_DECLARATION), m => m[1]);
+
+const importedNames = (code: string) => Array.from(code.matchAll(IMPORT_CLAUSE), m => m[1])
+  .flatMap(clause => clause.replace(/[{}]/g, ',').split(','))
+  .map(part => part.trim().split(/\s+as\s+/).pop()!.replace(/^type\s+/, '').trim())
+  .filter(name => /^[A-Za-z_$][\w$]*$/.test(name));
+
+const mentions = (code: string, name: string) =>
+  new RegExp(`(^|[^\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(code);
+
+/**
+ * The line that registers a script's components with the preview's hot runtime; it is appended
+ * to every script, both in the document and when the script is re-run.
+ */
+export const hotRegistration = (file: FileEntry) => {
+  const components = declaredNames(file.content).filter(isComponentName);
+  const entries = components.map(name => `${name}: typeof ${name} === 'undefined' ? undefined : ${name}`);
+  return `;window.__BUNDLEBLITZ_HOT__ && __BUNDLEBLITZ_HOT__.register(${JSON.stringify(file.path)}, {${entries.length > 0 ? ` ${entries.join(', ')} ` : ''}});`;
+};
+
+// The text of a file's <style data-preview-style> block
+export const previewStyleContent = (file: FileEntry) => `/* --- ${file.name} --- */\n${file.content}`;
+
+// A script can be re-run on its own when it declares components, leaves mounting to other code,
+// and shares nothing with the other scripts but those components. That includes imports: usually
+// one script imports React for all of them, and a script re-run without it would not find it.
+const canRerun = (file: FileEntry, others: FileEntry[]) => {
+  if (MOUNTS_ROOT.test(file.content)) return false;
+  const declared = declaredNames(file.content);
+  if (!declared.some(isComponentName)) return false;
+  const own = new Set([...declared, ...importedNames(file.content)]);
+  const otherBindings = others.flatMap(f => [...declaredNames(f.content), ...importedNames(f.content)]);
+  if (otherBindings.some(name => !own.has(name) && mentions(file.content, name))) return false;
+  return declared.filter(name => !isComponentName(name)).every(name => others.every(f => !mentions(f.content, name)));
+};
+
+/**
+ * Decides how a running preview catches up with new sources: not at all when nothing it shows
+ * changed, by swapping styles and re-running scripts in place, or with a full reload when the
+ * page, the import map or the set of files changed, or a script cannot be re-run on its own.
+ */
+export const planPreviewChange = (prev: PreviewSources, next: PreviewSources): PreviewChange => {
+  if (JSON.stringify(prev.importMap) !== JSON.stringify(next.importMap)) return { type: 'reload' };
+  const before = prev.files.filter(isPreviewFile);
+  const after = next.files.filter(isPreviewFile);
+  if (before.length !== after.length || before.some((f, i) => f.path !== after[i].path)) return { type: 'reload' };
+
+  const update: HotUpdate = { styles: [], scripts: [] };
+  for (let i = 0; i < after.length; i++) {
+    const file = after[i];
+    if (file.content === before[i].content) continue;
+    if (isPreviewPage(file)) return { type: 'reload' };
+    if (isPreviewStyle(file)) {
+      update.styles.push({ path: file.path, css: previewStyleContent(file) });
+    } else {
+      if (!canRerun(file, after.filter(f => f !== file && isPreviewScript(f)))) return { type: 'reload' };
+      update.scripts.push({ path: file.path, code: `${file.content}\n${hotRegistration(file)}` });
+    }
+  }
+  return update.styles.length === 0 && update.scripts.length === 0 ? { type: 'none' } : { type: 'hot', update };
+};
+
+/**
+ * Folds the updates a frame has missed into one, the latest version of each file winning.
+ */
+export const mergeHotUpdates = (updates: HotUpdate[]): HotUpdate => {
+  const styles = new Map<string, string>();
+  const scripts = new Map<string, string>();
+  updates.forEach(u => {
+    u.styles.forEach(s => styles.set(s.path, s.css));
+    u.scripts.forEach(s => scripts.set(s.path, s.code));
+  });
+  return {
+    styles: Array.from(styles, ([path, css]) => ({ path, css })),
+    scripts: Array.from(scripts, ([path, code]) => ({ path, code })),
+  };
+};
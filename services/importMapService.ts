@@ -0,0 +1,207 @@
+import { FileEntry } from '../types';
+import { findRootFiles } from './lintConfigService';
+
+const STORAGE_KEY_REGISTRY = 'bundle_blitz_package_registry';
+const STORAGE_KEY_OVERRIDES = 'bundle_blitz_package_overrides';
+
+// {name} and {version} are filled in per package; subpaths (react-dom/client) are appended after a slash.
+// {entry} is the module file the package's own package.json names, since browsers do not read it.
+export const REGISTRY_PRESETS = [
+  { label: 'esm.sh', url: 'https://esm.sh/{name}@{version}' },
+  { label: 'Local', url: 'http://localhost:8080/{name}/{entry}' },
+];
+
+export const DEFAULT_REGISTRY = REGISTRY_PRESETS[0].url;
+
+export interface PackageDependency {
+  // The specifier workspace code imports
+  name: string;
+  // The package actually fetched; differs for `npm:` aliases
+  packageName: string;
+  version: string;
+}
+
+export interface WorkspaceDependencies {
+  dependencies: PackageDependency[];
+  // Path of the package.json they came from, or null when the workspace has none
+  source: string | null;
+  // Dependencies that do not come from a registry (file:, git, workspace:...)
+  skipped: string[];
+}
+
+export interface ImportMap {
+  imports: Record<string, string>;
+}
+
+const NON_REGISTRY_SPEC = /^(file|link|workspace|portal|git|git\+\w+|github|https?):|^[\w.-]+\/[\w.-]+(#.*)?$/;
+
+const readVersion = (name: string, spec: string): PackageDependency | null => {
+  if (NON_REGISTRY_SPEC.test(spec)) return null;
+  const alias = spec.match(/^npm:((?:@[^/]+\/)?[^@]+)(?:@(.*))?$/);
+  if (alias) return { name, packageName: alias[1], version: alias[2] || 'latest' };
+  return { name, packageName: name, version: spec.trim() && spec.trim() !== '*' ? spec.trim() : 'latest' };
+};
+
+/**
+ * Reads `dependencies` from the workspace's root package.json. Dev dependencies are left out:
+ * they are build tools, not code the preview loads. Throws when package.json cannot be parsed.
+ */
+export const readWorkspaceDependencies = (files: FileEntry[]): WorkspaceDependencies => {
+  const [manifest] = findRootFiles(files, ['package.json']);
+  if (!manifest) return { dependencies: [], source: null, skipped: [] };
+  let declared: Record<string, unknown>;
+  try {
+    declared = JSON.parse(manifest.content).dependencies ?? {};
+  } catch (err) {
+    throw new Error(`Could not read package.json "${manifest.path}": ${(err as Error).message}`);
+  }
+  const dependencies: PackageDependency[] = [];
+  const skipped: string[] = [];
+  for (const [name, spec] of Object.entries(declared)) {
+    const dependency = typeof spec === 'string' ? readVersion(name, spec) : null;
+    if (dependency) dependencies.push(dependency);
+    else skipped.push(name);
+  }
+  return { dependencies, source: manifest.path, skipped };
+};
+
+// What Node falls back to when a package.json names no entry
+const DEFAULT_ENTRY = 'index.js';
+
+const ENTRY_CONDITIONS = ['browser', 'import', 'module', 'default'];
+
+export const usesPackageEntry = (template: string) => template.includes('{entry}');
+
+const templateFor = (dependency: PackageDependency, registry: string, overrides: Record<string, string>) =>
+  overrides[dependency.name]?.trim() || registry;
+
+/**
+ * The URL a package's root module is loaded from. Relative registries and overrides are resolved
+ * against the app's own address, since the preview runs from a blob: URL that has no base of its own.
+ * Throws when the template does not make a URL.
+ */
+export const resolvePackageUrl = (template: string, dependency: PackageDependency, entry = DEFAULT_ENTRY, baseUrl = location.href) => {
+  const url = template
+    .replace(/\{name\}/g, dependency.packageName)
+    .replace(/\{version\}/g, dependency.version)
+    .replace(/\{entry\}/g, entry);
+  return new URL(url, baseUrl).href;
+};
+
+export const isValidPackageTemplate = (template: string) => {
+  try {
+    resolvePackageUrl(template, { name: 'package', packageName: 'package', version: 'latest' });
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * The file a package.json points browsers at: the `.` export for the browser or import conditions,
+ * then `module`, then `main`, the order a bundler resolves them in.
+ */
+export const readPackageEntry = (manifest: any): string => {
+  const pick = (target: any): string | null => {
+    if (typeof target === 'string') return target;
+    if (Array.isArray(target)) return target.map(pick).find(Boolean) ?? null;
+    if (target && typeof target === 'object') return ENTRY_CONDITIONS.map(c => pick(target[c])).find(Boolean) ?? null;
+    return null;
+  };
+  const exported = manifest?.exports;
+  const hasSubpaths = exported && typeof exported === 'object' && !Array.isArray(exported) && Object.keys(exported).some(key => key.startsWith('.'));
+  const entry = pick(hasSubpaths ? exported['.'] : exported)
+    ?? (typeof manifest?.browser === 'string' ? manifest.browser : null)
+    ?? (typeof manifest?.module === 'string' ? manifest.module : null)
+    ?? (typeof manifest?.main === 'string' ? manifest.main : null)
+    ?? DEFAULT_ENTRY;
+  const file = entry.replace(/^\.?\//, '');
+  return /\.[cm]?js$/.test(file) ? file : `${file}.js`;
+};
+
+/**
+ * Reads the entry file of every package whose registry or override uses {entry}, from the
+ * package.json next to it. A package whose manifest cannot be fetched keeps the default entry.
+ */
+export const resolvePackageEntries = async (dependencies: PackageDependency[], registry: string, overrides: Record<string, string>): Promise<Record<string, string>> => {
+  const results = await Promise.all(dependencies.map(async dependency => {
+    const template = templateFor(dependency, registry, overrides);
+    if (!usesPackageEntry(template)) return null;
+    try {
+      const response = await fetch(resolvePackageUrl(template, dependency, 'package.json'));
+      if (!response.ok) return null;
+      return [dependency.name, readPackageEntry(await response.json())] as const;
+    } catch (e) {
+      return null;
+    }
+  }));
+  return Object.fromEntries(results.filter((r): r is readonly [string, string] => r !== null));
+};
+
+/**
+ * Maps every dependency, and its subpaths, to the registry or to the URL it is overridden with.
+ * An override that names a single module file maps the package itself but none of its subpaths.
+ * A dependency whose template does not make a URL is left unmapped.
+ */
+export const buildImportMap = (dependencies: PackageDependency[], registry: string, overrides: Record<string, string>, entries: Record<string, string> = {}): ImportMap => {
+  const imports: Record<string, string> = {};
+  for (const dependency of dependencies) {
+    const template = templateFor(dependency, registry, overrides);
+    let url: string;
+    try {
+      url = resolvePackageUrl(template, dependency, entries[dependency.name]);
+    } catch (e) {
+      continue;
+    }
+    imports[dependency.name] = url;
+    // Subpaths resolve against the package folder, which {entry} sits in
+    const folder = usesPackageEntry(template) ? resolvePackageUrl(template, dependency, '')
+      : /\.m?js$/.test(new URL(url).pathname) ? null : url;
+    if (folder) imports[`${dependency.name}/`] = folder.endsWith('/') ? folder : `${folder}/`;
+  }
+  return { imports };
+};
+
+export const isMappedSpecifier = (importMap: ImportMap, specifier: string) =>
+  specifier in importMap.imports || Object.keys(importMap.imports).some(key => key.endsWith('/') && specifier.startsWith(key));
+
+// `<` is escaped so a URL cannot close the script element early
+export const toImportMapScript = (importMap: ImportMap) =>
+  `<script type="importmap">\n${JSON.stringify(importMap, null, 2).replace(/</g, '\\u003c')}\n</script>`;
+
+/**
+ * Requests a package URL and resolves to the HTTP status, or 0 when the server cannot
+ * be reached at all (offline, or a local registry that is not running).
+ */
+export const checkPackageUrl = async (url: string): Promise<number> => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.status;
+  } catch (e) {
+    return 0;
+  }
+};
+
+// The registry is a property of the machine (a local mirror, say), so it is shared by all workspaces
+export const loadPackageRegistry = () => localStorage.getItem(STORAGE_KEY_REGISTRY) || DEFAULT_REGISTRY;
+
+export const savePackageRegistry = (registry: string) => {
+  localStorage.setItem(STORAGE_KEY_REGISTRY, registry);
+};
+
+const overridesKey = (workspaceKey: string) => `${STORAGE_KEY_OVERRIDES}:${workspaceKey || '/'}`;
+
+export const loadPackageOverrides = (workspaceKey: string): Record<string, string> => {
+  const saved = localStorage.getItem(overridesKey(workspaceKey));
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch (e) {}
+  }
+  return {};
+};
+
+export const savePackageOverrides = (workspaceKey: string, overrides: Record<string, string>) => {
+  localStorage.setItem(overridesKey(workspaceKey), JSON.stringify(overrides));
+};
@@ -0,0 +1,244 @@
+import { FileEntry, LintConfig, LintPreset, LintRuleLevel, LintRuleSetting } from '../types';
+
+const STORAGE_KEY_LINT_RULES = 'bundle_blitz_lint_rules';
+
+// Checked in this order; the first one that holds a config wins, like ESLint's own lookup
+const CONFIG_FILE_NAMES = ['eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', '.eslintrc.json', '.eslintrc', 'package.json'];
+
+// The core rules `eslint:recommended` (and @eslint/js `configs.recommended`) turn on
+const RECOMMENDED_RULES = [
+  'constructor-super', 'for-direction', 'getter-return', 'no-async-promise-executor', 'no-case-declarations',
+  'no-class-assign', 'no-compare-neg-zero', 'no-cond-assign', 'no-const-assign', 'no-constant-binary-expression',
+  'no-constant-condition', 'no-control-regex', 'no-debugger', 'no-delete-var', 'no-dupe-args', 'no-dupe-class-members',
+  'no-dupe-else-if', 'no-dupe-keys', 'no-duplicate-case', 'no-empty', 'no-empty-character-class', 'no-empty-pattern',
+  'no-empty-static-block', 'no-ex-assign', 'no-extra-boolean-cast', 'no-fallthrough', 'no-func-assign',
+  'no-global-assign', 'no-import-assign', 'no-invalid-regexp', 'no-irregular-whitespace', 'no-loss-of-precision',
+  'no-misleading-character-class', 'no-new-native-nonconstructor', 'no-nonoctal-decimal-escape', 'no-obj-calls',
+  'no-octal', 'no-prototype-builtins', 'no-redeclare', 'no-regex-spaces', 'no-self-assign', 'no-setter-return',
+  'no-shadow-restricted-names', 'no-sparse-arrays', 'no-this-before-super', 'no-undef', 'no-unexpected-multiline',
+  'no-unreachable', 'no-unsafe-finally', 'no-unsafe-negation', 'no-unsafe-optional-chaining', 'no-unused-labels',
+  'no-unused-private-class-members', 'no-unused-vars', 'no-useless-backreference', 'no-useless-catch',
+  'no-useless-escape', 'no-with', 'require-yield', 'use-isnan', 'valid-typeof',
+];
+
+const recommended: Record<string, LintRuleSetting> = Object.fromEntries(RECOMMENDED_RULES.map(rule => [rule, 'error']));
+
+export const LINT_PRESETS: Record<LintPreset, Record<string, LintRuleSetting>> = {
+  recommended,
+  strict: {
+    ...recommended,
+    'eqeqeq': 'error',
+    'curly': 'error',
+    'no-var': 'error',
+    'prefer-const': 'error',
+    'no-eval': 'error',
+    'no-implied-eval': 'error',
+    'no-throw-literal': 'error',
+    'default-case-last': 'error',
+    'no-shadow': 'warn',
+    'no-console': 'warn',
+  },
+  none: {},
+};
+
+// Suggestions for the rules editor; any core rule name is accepted
+export const KNOWN_RULES = Object.keys(LINT_PRESETS.strict).concat(['semi', 'quotes', 'no-else-return', 'prefer-template', 'no-alert']).sort();
+
+// Spreading `globals.node` into a flat config is common; the browser globals are always on
+const NODE_GLOBALS = ['require', 'module', 'exports', 'process', 'Buffer', '__dirname', '__filename', 'global'];
+
+const LEVELS: LintRuleLevel[] = ['off', 'warn', 'error'];
+
+const toLevel = (value: unknown): LintRuleLevel | null => {
+  if (typeof value === 'number') return LEVELS[value] ?? null;
+  return LEVELS.find(level => level === value) ?? null;
+};
+
+export const getRuleLevel = (setting: LintRuleSetting): LintRuleLevel => Array.isArray(setting) ? setting[0] : setting;
+
+export const withRuleLevel = (setting: LintRuleSetting, level: LintRuleLevel): LintRuleSetting =>
+  Array.isArray(setting) ? [level, ...setting.slice(1)] : level;
+
+export const matchPreset = (rules: Record<string, LintRuleSetting>): LintPreset | null => {
+  const key = JSON.stringify(Object.entries(rules).sort(([a], [b]) => a.localeCompare(b)));
+  return (Object.keys(LINT_PRESETS) as LintPreset[]).find(preset =>
+    JSON.stringify(Object.entries(LINT_PRESETS[preset]).sort(([a], [b]) => a.localeCompare(b))) === key
+  ) ?? null;
+};
+
+interface RawConfig {
+  recommended: boolean;
+  rules: Record<string, unknown>;
+  globals: Record<string, unknown>;
+  // Rules whose setting could not be read without running the config
+  dynamicRules: string[];
+}
+
+const toLintConfig = (raw: RawConfig, source: string): LintConfig => {
+  const rules: Record<string, LintRuleSetting> = raw.recommended ? { ...recommended } : {};
+  const skippedRules = [...raw.dynamicRules];
+  for (const [name, value] of Object.entries(raw.rules)) {
+    const level = toLevel(Array.isArray(value) ? value[0] : value);
+    if (!level) continue;
+    if (name.includes('/')) {
+      skippedRules.push(name);
+      continue;
+    }
+    rules[name] = Array.isArray(value) ? [level, ...value.slice(1)] : level;
+  }
+
+  const globals: LintConfig['globals'] = {};
+  for (const [name, value] of Object.entries(raw.globals)) {
+    if (value === true || value === 'readonly' || value === 'readable') globals[name] = 'readonly';
+    else if (value === 'writable' || value === 'writeable') globals[name] = 'writable';
+    else if (value === false || value === 'off') globals[name] = 'off';
+  }
+  return { rules, globals, source, skippedRules };
+};
+
+const propertyName = (node: any): string | undefined => {
+  if (node.computed) return node.key.type === 'StringLiteral' ? node.key.value : undefined;
+  return node.key.type === 'Identifier' ? node.key.name : node.key.value;
+};
+
+// Evaluates a JSON-with-comments document (.eslintrc, .eslintrc.json) without running anything
+const readJsonc = (Babel: any, source: string, filename: string): any => {
+  let value: any;
+  Babel.transform(`(${source}\n)`, {
+    filename,
+    code: false,
+    plugins: [() => ({
+      visitor: {
+        Program(path: any) {
+          const result = path.get('body.0.expression').evaluate();
+          if (!result.confident) throw new Error('not a JSON document');
+          value = result.value;
+        },
+      },
+    })],
+  });
+  return value;
+};
+
+const readEslintrc = (config: any): RawConfig => {
+  if (!config || typeof config !== 'object') throw new Error('expected an object');
+  const extendsList = [config.extends ?? []].flat();
+  return {
+    recommended: extendsList.includes('eslint:recommended'),
+    rules: config.rules ?? {},
+    globals: config.globals ?? {},
+    dynamicRules: [],
+  };
+};
+
+/**
+ * Reads the rules of a flat config statically. Every `rules` object in the file is merged in
+ * source order and `files` globs are not applied, so a config that scopes rules to some files
+ * turns them on for all of them.
+ */
+const readFlatConfig = (Babel: any, source: string, filename: string): RawConfig => {
+  const raw: RawConfig = { recommended: false, rules: {}, globals: {}, dynamicRules: [] };
+  // Local names bound to @eslint/js, whose `configs.recommended` is eslint:recommended
+  const eslintJs = new Set<string>();
+
+  Babel.transform(source, {
+    filename,
+    sourceType: 'unambiguous',
+    code: false,
+    plugins: [() => ({
+      visitor: {
+        ImportDeclaration(path: any) {
+          if (path.node.source.value !== '@eslint/js') return;
+          path.node.specifiers.forEach((s: any) => eslintJs.add(s.local.name));
+        },
+        VariableDeclarator(path: any) {
+          const init = path.node.init;
+          const isRequire = init?.type === 'CallExpression' && init.callee.name === 'require' && init.arguments[0]?.value === '@eslint/js';
+          if (isRequire && path.node.id.type === 'Identifier') eslintJs.add(path.node.id.name);
+        },
+        MemberExpression(path: any) {
+          const { object, property } = path.node;
+          if (property.name !== 'recommended' || object.type !== 'MemberExpression' || object.property.name !== 'configs') return;
+          if (object.object.type === 'Identifier' && eslintJs.has(object.object.name)) raw.recommended = true;
+        },
+        ObjectProperty(path: any) {
+          const name = propertyName(path.node);
+          if ((name !== 'rules' && name !== 'globals') || path.node.value.type !== 'ObjectExpression') return;
+          const target = name === 'rules' ? raw.rules : raw.globals;
+          path.get('value.properties').forEach((property: any) => {
+            if (property.isSpreadElement()) {
+              const spread = property.node.argument;
+              if (name === 'globals' && spread.type === 'MemberExpression' && /^node/.test(spread.property.name)) {
+                NODE_GLOBALS.forEach(global => { target[global] = 'readonly'; });
+              }
+              return;
+            }
+            const key = propertyName(property.node);
+            if (!key || !property.isObjectProperty()) return;
+            const result = property.get('value').evaluate();
+            if (result.confident) target[key] = result.value;
+            else if (name === 'rules') raw.dynamicRules.push(key);
+          });
+        },
+      },
+    })],
+  });
+  return raw;
+};
+
+const depth = (file: FileEntry) => file.path.split('/').length;
+
+// Files at the workspace root (the shallowest folder holding any file) with one of the given names, in that order
+export const findRootFiles = (files: FileEntry[], names: string[]): FileEntry[] => {
+  const rootDepth = Math.min(...files.map(depth));
+  return names.flatMap(name => files.filter(f => f.name === name && depth(f) === rootDepth));
+};
+
+export const findLintConfigFiles = (files: FileEntry[]) => findRootFiles(files, CONFIG_FILE_NAMES);
+
+/**
+ * Picks up an eslint.config.js, .eslintrc(.json) or package.json `eslintConfig` from the workspace.
+ * Resolves to null when there is none; throws when the config that applies cannot be read.
+ */
+export const loadWorkspaceLintConfig = async (configFiles: FileEntry[]): Promise<LintConfig | null> => {
+  const Babel = await import('@babel/standalone');
+  for (const file of configFiles) {
+    try {
+      if (file.name.startsWith('eslint.config.')) {
+        return toLintConfig(readFlatConfig(Babel, file.content, file.path), file.path);
+      }
+      if (file.name === 'package.json') {
+        const config = JSON.parse(file.content).eslintConfig;
+        if (config) return toLintConfig(readEslintrc(config), `${file.path} (eslintConfig)`);
+        continue;
+      }
+      return toLintConfig(readEslintrc(readJsonc(Babel, file.content, file.path)), file.path);
+    } catch (err) {
+      throw new Error(`Could not read ESLint config "${file.path}": ${(err as Error).message.split('\n')[0]}`);
+    }
+  }
+  return null;
+};
+
+// Rules edited in the app are kept per workspace, keyed by the folder that was dropped
+export const getWorkspaceKey = (files: FileEntry[]) => {
+  const roots = new Set(files.map(f => f.path.includes('/') ? f.path.split('/')[0] : ''));
+  return roots.size === 1 ? [...roots][0] : '';
+};
+
+const storageKey = (workspaceKey: string) => `${STORAGE_KEY_LINT_RULES}:${workspaceKey || '/'}`;
+
+export const loadLintRules = (workspaceKey: string): Record<string, LintRuleSetting> => {
+  const saved = localStorage.getItem(storageKey(workspaceKey));
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch (e) {}
+  }
+  return LINT_PRESETS.recommended;
+};
+
+export const saveLintRules = (workspaceKey: string, rules: Record<string, LintRuleSetting>) => {
+  localStorage.setItem(storageKey(workspaceKey), JSON.stringify(rules));
+};
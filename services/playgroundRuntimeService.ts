@@ -0,0 +1,43 @@
+// The global a Playground bundle registers its modules under (see BundleOptions.exportRegistry)
+export const EXPORT_REGISTRY_GLOBAL = '__BUNDLEBLITZ_EXPORTS__';
+
+// React's own production builds, shipped with the app rather than fetched from a CDN so the
+// Playground renders offline. Each is split into its own chunk and only loaded with the Playground.
+const RUNTIME_SOURCES: Record<string, () => Promise<{ default: string }>> = {
+  'scheduler': () => import('../node_modules/scheduler/cjs/scheduler.production.js?raw'),
+  'react': () => import('../node_modules/react/cjs/react.production.js?raw'),
+  'react/jsx-runtime': () => import('../node_modules/react/cjs/react-jsx-runtime.production.js?raw'),
+  'react-dom': () => import('../node_modules/react-dom/cjs/react-dom.production.js?raw'),
+  'react-dom/client': () => import('../node_modules/react-dom/cjs/react-dom-client.production.js?raw'),
+};
+
+let runtime: Promise<string> | null = null;
+
+/**
+ * The script that gives a Playground frame React. The CommonJS builds sit in a module table like
+ * the one the bundler emits; loading them fills the `React` / `ReactDOM` globals and the externals
+ * an iife bundle looks up. Built once, the first time a Playground needs it.
+ */
+export const loadPlaygroundRuntime = () => {
+  if (runtime) return runtime;
+  runtime = Promise.all(Object.entries(RUNTIME_SOURCES).map(async ([name, load]) => [name, (await load()).default] as const))
+    .then(sources => `(function (sources) {
+  var cache = {};
+  function load(name) {
+    if (cache[name]) return cache[name].exports;
+    var module = cache[name] = { exports: {} };
+    sources[name].call(module.exports, load, module, module.exports);
+    return module.exports;
+  }
+  var externals = {};
+  Object.keys(sources).forEach(function (name) { if (name !== 'scheduler') externals[name] = load(name); });
+  globalThis.__BUNDLEBLITZ_EXTERNALS__ = externals;
+  window.React = externals['react'];
+  window.ReactDOM = Object.assign({}, externals['react-dom'], externals['react-dom/client']);
+})({
+${sources.map(([name, code]) => `${JSON.stringify(name)}: function (require, module, exports) {\n${code}\n}`).join(',\n')}
+});`);
+  // A chunk that failed to load is requested again next time
+  runtime.catch(() => { runtime = null; });
+  return runtime;
+};
@@ -0,0 +1,298 @@
+import { SourceMap } from '../types';
+import { createSourceMapLookup } from './sourceMapService';
+import type { SourceLocation } from './bundlerService';
+
+// Tags every message the bridge posts, so the parent can ignore whatever else the page posts
+export const PREVIEW_MESSAGE_SOURCE = 'bundleblitz-preview';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type PreviewMessage =
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: 'console'; level: ConsoleLevel; args: string[]; timestamp: number }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: 'error'; kind: 'error' | 'rejection'; name: string; message: string; stack: string; timestamp: number }
+  | {
+      source: typeof PREVIEW_MESSAGE_SOURCE;
+      type: 'network';
+      id: string;
+      // fetch and xhr are reported when they start and again when they settle; other resources once loaded
+      initiator: string;
+      method: string;
+      url: string;
+      status?: number;
+      duration?: number;
+      size?: number;
+      error?: string;
+      timestamp: number;
+    }
+  // A hot update could not be applied, so the frame needs a full reload
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: 'hot-failed'; reason: string; timestamp: number };
+
+// What changed since the frame loaded: style blocks to swap by file path, and scripts to re-run.
+// Script code already ends with its component registration (see hotReloadService).
+export interface HotUpdate {
+  styles: { path: string; css: string }[];
+  scripts: { path: string; code: string }[];
+}
+
+// Runs first in the preview document. Console arguments are formatted to strings here because
+// functions, DOM nodes and cyclic objects cannot be structured-cloned into the parent.
+const BRIDGE_SCRIPT = `(function () {
+  var SOURCE = ${JSON.stringify(PREVIEW_MESSAGE_SOURCE)};
+  var nextId = 0;
+  function post(message) {
+    message.source = SOURCE;
+    message.timestamp = Date.now();
+    try { parent.postMessage(message, '*'); } catch (e) {}
+  }
+  function format(value, depth, seen) {
+    if (typeof value === 'string') return depth === 0 ? value : JSON.stringify(value);
+    if (typeof value === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+    if (typeof value === 'symbol' || typeof value === 'bigint') return String(value) + (typeof value === 'bigint' ? 'n' : '');
+    if (value === null || typeof value !== 'object') return String(value);
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    if (typeof Node !== 'undefined' && value instanceof Node) {
+      return value.nodeType === 1 ? '<' + value.nodeName.toLowerCase() + (value.id ? '#' + value.id : '') + '>' : value.nodeName;
+    }
+    if (seen.indexOf(value) !== -1) return '[Circular]';
+    if (depth > 2) return Array.isArray(value) ? '[…]' : '{…}';
+    seen = seen.concat([value]);
+    if (Array.isArray(value)) {
+      return '[' + value.slice(0, 50).map(function (item) { return format(item, depth + 1, seen); }).join(', ') + (value.length > 50 ? ', …' : '') + ']';
+    }
+    var keys = Object.keys(value);
+    var name = value.constructor && value.constructor.name !== 'Object' ? value.constructor.name + ' ' : '';
+    return name + '{' + keys.slice(0, 50).map(function (key) {
+      var item;
+      try { item = value[key]; } catch (e) { item = '[Getter]'; }
+      return key + ': ' + format(item, depth + 1, seen);
+    }).join(', ') + (keys.length > 50 ? ', …' : '') + '}';
+  }
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      post({ type: 'console', level: level, args: args.map(function (arg) { return format(arg, 0, []); }) });
+      return original.apply(console, args);
+    };
+  });
+  function reportError(kind, error, fallback) {
+    var isError = error && typeof error === 'object' && 'message' in error;
+    post({
+      type: 'error',
+      kind: kind,
+      name: isError ? error.name || 'Error' : kind === 'rejection' ? 'Unhandled rejection' : 'Error',
+      message: isError ? String(error.message) : format(error, 1, []),
+      stack: (isError && error.stack) || fallback || ''
+    });
+  }
+  window.addEventListener('error', function (event) {
+    // Failed <script>/<img> loads arrive here too, without an error object
+    if (!event.error && !event.message) return;
+    var location = event.filename ? '    at ' + event.filename + ':' + event.lineno + ':' + event.colno : '';
+    if (event.error) reportError('error', event.error, location);
+    else post({ type: 'error', kind: 'error', name: 'Error', message: event.message, stack: location });
+  });
+  window.addEventListener('unhandledrejection', function (event) { reportError('rejection', event.reason); });
+
+  // Hot updates. React announces its renderers and every commit through the DevTools hook; development
+  // builds also take a refresh handler, through which swapped-in components re-render with their state.
+  var hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  if (!hook) {
+    var rendererCount = 0;
+    hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
+      supportsFiber: true,
+      renderers: new Map(),
+      inject: function (renderer) { var id = ++rendererCount; this.renderers.set(id, renderer); return id; },
+      onCommitFiberRoot: function () {},
+      onCommitFiberUnmount: function () {},
+      checkDCE: function () {}
+    };
+  }
+  var renderers = [];
+  var roots = new Set();
+  var families = new Map();
+  var typeFamilies = new WeakMap();
+  var updatedFamilies = null;
+  var hookInject = hook.inject;
+  hook.inject = function (renderer) {
+    if (typeof renderer.setRefreshHandler === 'function') {
+      renderer.setRefreshHandler(function (type) { return typeFamilies.get(type); });
+    }
+    renderers.push(renderer);
+    return hookInject.apply(this, arguments);
+  };
+  var hookCommit = hook.onCommitFiberRoot;
+  hook.onCommitFiberRoot = function (id, root) {
+    var state = root.current && root.current.memoizedState;
+    if (state && state.element == null) roots.delete(root);
+    else roots.add(root);
+    return hookCommit.apply(this, arguments);
+  };
+  // Every preview script ends with a call to this, naming the components it declares
+  window.__BUNDLEBLITZ_HOT__ = {
+    register: function (path, components) {
+      Object.keys(components).forEach(function (name) {
+        var type = components[name];
+        if (typeof type !== 'function' && !(type && typeof type === 'object' && type.$$typeof)) return;
+        var id = path + '%' + name;
+        var family = families.get(id);
+        if (!family) families.set(id, family = { current: type });
+        else if (family.current !== type) {
+          family.current = type;
+          if (updatedFamilies) updatedFamilies.add(family);
+        }
+        typeFamilies.set(type, family);
+      });
+    }
+  };
+  function swapStyles(styles) {
+    var elements = Array.prototype.slice.call(document.querySelectorAll('style[data-preview-style]'));
+    styles.forEach(function (style) {
+      var element = elements.filter(function (el) { return el.getAttribute('data-preview-style') === style.path; })[0];
+      if (!element) throw new Error('The style block for ' + style.path + ' is gone');
+      element.textContent = style.css;
+    });
+  }
+  function rerunScripts(scripts) {
+    var refreshers = renderers.filter(function (renderer) { return typeof renderer.scheduleRefresh === 'function'; });
+    if (refreshers.length === 0) return Promise.reject(new Error('No development build of React is rendering this page'));
+    if (roots.size === 0) return Promise.reject(new Error('No React root is mounted'));
+    updatedFamilies = new Set();
+    return scripts.reduce(function (chain, script) {
+      return chain.then(function () {
+        var url = URL.createObjectURL(new Blob([script.code], { type: 'text/javascript' }));
+        return import(url).finally(function () { URL.revokeObjectURL(url); });
+      });
+    }, Promise.resolve()).then(function () {
+      var updated = updatedFamilies;
+      updatedFamilies = null;
+      if (updated.size === 0) throw new Error('No component changed');
+      roots.forEach(function (root) {
+        refreshers.forEach(function (renderer) { renderer.scheduleRefresh(root, { updatedFamilies: updated, staleFamilies: new Set() }); });
+      });
+    }, function (error) {
+      updatedFamilies = null;
+      throw error;
+    });
+  }
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.source !== SOURCE || data.type !== 'hot-update') return;
+    var update = data.update;
+    Promise.resolve().then(function () {
+      swapStyles(update.styles);
+      return update.scripts.length > 0 ? rerunScripts(update.scripts) : undefined;
+    }).then(function () {
+      console.info('[hot] Updated ' + update.styles.concat(update.scripts).map(function (file) { return file.path; }).join(', '));
+    }, function (error) {
+      post({ type: 'hot-failed', reason: String(error && error.message || error) });
+    });
+  });
+
+  var originalFetch = window.fetch;
+  if (originalFetch) {
+    window.fetch = function (input, init) {
+      var id = 'fetch' + nextId++;
+      var url = typeof input === 'string' ? input : input && input.url ? input.url : String(input);
+      var method = ((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+      var started = performance.now();
+      post({ type: 'network', id: id, initiator: 'fetch', method: method, url: url });
+      return originalFetch.apply(this, arguments).then(function (response) {
+        var size = Number(response.headers.get('content-length'));
+        post({ type: 'network', id: id, initiator: 'fetch', method: method, url: url, status: response.status, duration: performance.now() - started, size: isNaN(size) ? undefined : size });
+        return response;
+      }, function (error) {
+        post({ type: 'network', id: id, initiator: 'fetch', method: method, url: url, duration: performance.now() - started, error: String(error && error.message || error) });
+        throw error;
+      });
+    };
+  }
+  var xhrOpen = XMLHttpRequest.prototype.open;
+  var xhrSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    this.__bridge = { id: 'xhr' + nextId++, method: String(method).toUpperCase(), url: String(url) };
+    return xhrOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function () {
+    var xhr = this;
+    var info = xhr.__bridge;
+    if (info) {
+      var started = performance.now();
+      post({ type: 'network', id: info.id, initiator: 'xhr', method: info.method, url: info.url });
+      xhr.addEventListener('loadend', function () {
+        post({
+          type: 'network', id: info.id, initiator: 'xhr', method: info.method, url: info.url,
+          status: xhr.status || undefined, duration: performance.now() - started,
+          error: xhr.status ? undefined : 'Request failed'
+        });
+      });
+    }
+    return xhrSend.apply(this, arguments);
+  };
+  // Modules from the import map, stylesheets and images are only seen once they have loaded
+  if (typeof PerformanceObserver !== 'undefined') {
+    try {
+      new PerformanceObserver(function (list) {
+        list.getEntries().forEach(function (entry) {
+          if (entry.initiatorType === 'fetch' || entry.initiatorType === 'xmlhttprequest') return;
+          post({
+            type: 'network', id: 'resource' + nextId++, initiator: entry.initiatorType, method: 'GET', url: entry.name,
+            status: entry.responseStatus || undefined, duration: entry.duration, size: entry.transferSize || undefined
+          });
+        });
+      }).observe({ type: 'resource', buffered: true });
+    } catch (e) {}
+  }
+})();`;
+
+/**
+ * Adds the console / error / network / hot update bridge as the first script of a preview document.
+ */
+export const injectPreviewBridge = (html: string) => {
+  const script = `<script>\n${BRIDGE_SCRIPT}\n</script>`;
+  // Not `<header>`, which also starts with `<head`
+  return /<head(\s[^>]*)?>/i.test(html)
+    ? html.replace(/<head(\s[^>]*)?>/i, (m) => `${m}\n${script}`)
+    : `${script}\n${html}`;
+};
+
+export const postHotUpdate = (frame: Window, update: HotUpdate) => {
+  frame.postMessage({ source: PREVIEW_MESSAGE_SOURCE, type: 'hot-update', update }, '*');
+};
+
+export const isPreviewMessage = (data: unknown): data is PreviewMessage =>
+  !!data && typeof data === 'object' && (data as PreviewMessage).source === PREVIEW_MESSAGE_SOURCE;
+
+export interface StackFrame {
+  // The frame as the browser printed it
+  raw: string;
+  fn?: string;
+  url: string;
+  line: number;
+  column: number;
+}
+
+// Chrome: `    at fn (url:1:2)` / `    at url:1:2`; Firefox and Safari: `fn@url:1:2`
+const FRAME_PATTERN = /^\s*(?:at\s+(?:(.*?)\s+\()?|(.*?)@)?((?:blob:|https?:|file:)[^\s()]*?):(\d+):(\d+)\)?\s*$/;
+
+export const parseStackFrames = (stack: string): StackFrame[] => stack.split('\n').flatMap(raw => {
+  const match = raw.match(FRAME_PATTERN);
+  if (!match) return [];
+  return [{ raw: raw.trim(), fn: match[1] || match[2] || undefined, url: match[3], line: Number(match[4]), column: Number(match[5]) }];
+});
+
+/**
+ * Maps positions reported inside the preview document back to workspace files. `scriptLine` is the
+ * 1-based line of the document where the inlined script starts; inline scripts report positions
+ * relative to the document, and only the document itself has a blob: URL.
+ */
+export const createPreviewLocator = (map: SourceMap, scriptLine: number) => {
+  const lookup = createSourceMapLookup(map);
+  return (url: string, line: number, column: number): SourceLocation | null => {
+    if (!url.startsWith('blob:') || line < scriptLine) return null;
+    const original = lookup(line - scriptLine + 1, column - 1);
+    return original ? { file: original.source, line: original.line, column: original.column + 1 } : null;
+  };
+};
+
+export type PreviewLocator = ReturnType<typeof createPreviewLocator>;
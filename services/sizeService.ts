@@ -0,0 +1,47 @@
+import { SizeReport, BundleSizeComparison, ModuleSizeReport, SourceMap } from '../types';
+import { attributeBySource } from './sourceMapService';
+
+// Browsers expose gzip through CompressionStream but not brotli; for minified JS brotli
+// output is typically 15-20% smaller than gzip, so its size is estimated from the gzip result
+const BROTLI_TO_GZIP_RATIO = 0.83;
+
+const gzipLength = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'));
+  return (await new Response(stream).arrayBuffer()).byteLength;
+};
+
+export const measureSize = async (code: string): Promise<SizeReport> => {
+  const bytes = new TextEncoder().encode(code);
+  const gzip = await gzipLength(bytes);
+  return { raw: bytes.length, gzip, brotli: Math.round(gzip * BROTLI_TO_GZIP_RATIO) };
+};
+
+export const compareSizes = async (before: string, after: string): Promise<BundleSizeComparison> => {
+  const [beforeReport, afterReport] = await Promise.all([measureSize(before), measureSize(after)]);
+  return { before: beforeReport, after: afterReport };
+};
+
+/**
+ * Attributes every byte of the final bundle to the workspace file it came from. Gzip sizes
+ * compress each file's share on its own, so they add up to more than the whole bundle's gzip size.
+ */
+export const measureModuleSizes = async (code: string, map: SourceMap, transpiledSizes: Record<string, number>): Promise<ModuleSizeReport[]> => {
+  const encoder = new TextEncoder();
+  const spans = attributeBySource(code, map);
+  const paths = new Set([...Object.keys(transpiledSizes), ...spans.keys()]);
+  return Promise.all(Array.from(paths, async path => {
+    const bytes = encoder.encode(spans.get(path) ?? '');
+    return {
+      path,
+      transpiled: transpiledSizes[path] ?? 0,
+      output: bytes.length,
+      gzip: bytes.length > 0 ? await gzipLength(bytes) : 0,
+    };
+  }));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
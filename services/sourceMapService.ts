@@ -0,0 +1,184 @@
+import { SourceMap } from '../types';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Map(Array.from(BASE64).map((c, i) => [c, i] as const));
+
+// A decoded segment: [generatedColumn, sourceIndex, originalLine, originalColumn], all absolute and 0-based
+export type MappingSegment = [number, number, number, number];
+
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+}
+
+const encodeVlq = (value: number) => {
+  let vlq = value < 0 ? ((-value) << 1) + 1 : value << 1;
+  let out = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    out += BASE64[digit];
+  } while (vlq > 0);
+  return out;
+};
+
+const decodeVlqSegment = (segment: string) => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_LOOKUP.get(char);
+    if (digit === undefined) throw new Error(`Invalid source map character "${char}"`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+};
+
+export const decodeMappings = (mappings: string): MappingSegment[][] => {
+  const lines: MappingSegment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  for (const line of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+    for (const raw of line.split(',')) {
+      if (!raw) continue;
+      const values = decodeVlqSegment(raw);
+      generatedColumn += values[0];
+      // Segments without a source carry no position we can map back to
+      if (values.length < 4) continue;
+      sourceIndex += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+      segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+};
+
+export const encodeMappings = (lines: MappingSegment[][]) => {
+  let prevSource = 0;
+  let prevLine = 0;
+  let prevColumn = 0;
+  return lines.map(segments => {
+    let prevGenerated = 0;
+    return segments.map(([generatedColumn, sourceIndex, originalLine, originalColumn]) => {
+      const encoded = encodeVlq(generatedColumn - prevGenerated)
+        + encodeVlq(sourceIndex - prevSource)
+        + encodeVlq(originalLine - prevLine)
+        + encodeVlq(originalColumn - prevColumn);
+      prevGenerated = generatedColumn;
+      prevSource = sourceIndex;
+      prevLine = originalLine;
+      prevColumn = originalColumn;
+      return encoded;
+    }).join(',');
+  }).join(';');
+};
+
+/**
+ * Returns a lookup from a 1-based line / 0-based column in the generated code to the
+ * original source position, or null when that location was emitted by the bundler itself.
+ * A column past the start of a segment keeps its offset into it.
+ */
+export const createSourceMapLookup = (map: SourceMap) => {
+  const lines = decodeMappings(map.mappings);
+  return (line: number, column = 0): OriginalPosition | null => {
+    const segments = lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+    let match = segments[0];
+    for (const segment of segments) {
+      if (segment[0] > column) break;
+      match = segment;
+    }
+    return { source: map.sources[match[1]], line: match[2] + 1, column: match[3] + Math.max(0, column - match[0]) };
+  };
+};
+
+/**
+ * The reverse of createSourceMapLookup: the first 1-based generated line holding code from
+ * the given 1-based line of a source, or null when that line did not make it into the output.
+ */
+export const createGeneratedLineLookup = (map: SourceMap) => {
+  const firstLine = new Map<string, number>();
+  decodeMappings(map.mappings).forEach((segments, generatedLine) => {
+    for (const [, sourceIndex, originalLine] of segments) {
+      const key = `${sourceIndex}:${originalLine}`;
+      if (!firstLine.has(key)) firstLine.set(key, generatedLine + 1);
+    }
+  });
+  return (source: string, line: number): number | null => {
+    const sourceIndex = map.sources.indexOf(source);
+    return sourceIndex === -1 ? null : firstLine.get(`${sourceIndex}:${line - 1}`) ?? null;
+  };
+};
+
+/**
+ * Joins sources one after another, each under its own header line and optionally followed by a
+ * footer line, with a line-for-line map back to the originals.
+ */
+export const concatenateSources = <T extends { path: string; content: string }>(
+  sources: T[],
+  header: (source: T) => string,
+  footer?: (source: T) => string
+) => {
+  const lines: MappingSegment[][] = [];
+  const chunks = sources.map((source, index) => {
+    lines.push([]);
+    source.content.split('\n').forEach((_, line) => lines.push([[0, index, line, 0]]));
+    if (!footer) return `${header(source)}\n${source.content}`;
+    lines.push([]);
+    return `${header(source)}\n${source.content}\n${footer(source)}`;
+  });
+  const map: SourceMap = {
+    version: 3,
+    sources: sources.map(s => s.path),
+    sourcesContent: sources.map(s => s.content),
+    names: [],
+    mappings: encodeMappings(lines),
+  };
+  return { code: chunks.join('\n'), map };
+};
+
+export const toInlineSourceMapComment = (map: SourceMap) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(map));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${btoa(binary)}`;
+};
+
+/**
+ * Splits generated code into the spans each original source produced. Text the map does
+ * not cover (bundler runtime, helpers injected by the minifier) is collected under ''.
+ */
+export const attributeBySource = (code: string, map: SourceMap): Map<string, string> => {
+  const lines = decodeMappings(map.mappings);
+  const spans = new Map<string, string[]>();
+  const add = (source: string, text: string) => {
+    if (!text) return;
+    if (!spans.has(source)) spans.set(source, []);
+    spans.get(source)!.push(text);
+  };
+
+  code.split('\n').forEach((line, i) => {
+    const segments = lines[i] ?? [];
+    add('', line.substring(0, segments[0]?.[0] ?? line.length));
+    segments.forEach((segment, j) => {
+      const end = segments[j + 1]?.[0] ?? line.length;
+      add(map.sources[segment[1]], line.substring(segment[0], end));
+    });
+  });
+
+  return new Map(Array.from(spans, ([source, parts]) => [source, parts.join('')]));
+};
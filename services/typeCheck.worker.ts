@@ -0,0 +1,114 @@
+/// <reference types="vite/client" />
+import ts from 'typescript';
+import { TypeCheckDiagnostic } from '../types';
+
+export interface TypeCheckRequest {
+  id: number;
+  files: { path: string; content: string }[];
+  tsconfig?: { path: string; content: string };
+}
+
+export type TypeCheckResponse =
+  | { id: number; diagnostics: TypeCheckDiagnostic[] }
+  | { id: number; error: string };
+
+// Default libs ship with the compiler; each one is only fetched when a program references it.
+// Without `exhaustive`, Vite leaves node_modules out of the glob and it would match nothing.
+const LIB_LOADERS = import.meta.glob('/node_modules/typescript/lib/lib.*.d.ts', { query: '?raw', import: 'default', exhaustive: true }) as Record<string, () => Promise<string>>;
+const libCache = new Map<string, string>();
+
+// Package typings cannot be installed in the browser, so failures that only mean
+// "types for this npm package are missing" are not reported
+const IGNORED_FOR_BARE_IMPORTS = new Set([2307, 7016]);
+const IGNORED_CODES = new Set([2875]);
+
+const loadLib = async (fileName: string): Promise<void> => {
+  if (libCache.has(fileName)) return;
+  const loader = LIB_LOADERS[`/node_modules/typescript/lib/${fileName}`];
+  if (!loader) throw new Error(`TypeScript lib "${fileName}" is not bundled with the app.`);
+  const text = await loader();
+  libCache.set(fileName, text);
+  const references = Array.from(text.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g), m => `lib.${m[1].toLowerCase()}.d.ts`);
+  await Promise.all(references.map(loadLib));
+};
+
+const resolveCompilerOptions = (tsconfig?: TypeCheckRequest['tsconfig']) => {
+  const defaults: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    strict: true,
+    skipLibCheck: true,
+    allowImportingTsExtensions: true,
+  };
+  if (!tsconfig) return { options: defaults, errors: [] as ts.Diagnostic[] };
+
+  const parsed = ts.parseConfigFileTextToJson(tsconfig.path, tsconfig.content);
+  if (parsed.error) return { options: defaults, errors: [parsed.error] };
+  const basePath = tsconfig.path.includes('/') ? tsconfig.path.substring(0, tsconfig.path.lastIndexOf('/')) : '';
+  const converted = ts.convertCompilerOptionsFromJson(parsed.config?.compilerOptions ?? {}, `/${basePath}`);
+  return { options: { ...defaults, ...converted.options }, errors: converted.errors };
+};
+
+const toDiagnostic = (diagnostic: ts.Diagnostic): TypeCheckDiagnostic => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  const category = diagnostic.category === ts.DiagnosticCategory.Error ? 'error'
+    : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info';
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { code: diagnostic.code, category, message };
+  }
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return { code: diagnostic.code, category, message, file: diagnostic.file.fileName.replace(/^\//, ''), line: line + 1, column: character + 1 };
+};
+
+const typeCheck = async ({ files, tsconfig }: TypeCheckRequest): Promise<TypeCheckDiagnostic[]> => {
+  const { options, errors } = resolveCompilerOptions(tsconfig);
+  options.noEmit = true;
+
+  const sources = new Map<string, string>(files.map(f => [`/${f.path}`, f.content]));
+  const defaultLib = ts.getDefaultLibFileName(options);
+  const libs = options.lib?.map(lib => (lib.startsWith('lib.') ? lib : `lib.${lib.toLowerCase()}.d.ts`)) ?? [defaultLib];
+  await Promise.all(libs.map(loadLib));
+
+  const sourceFileCache = new Map<string, ts.SourceFile>();
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const libName = fileName.replace(/^\/lib\//, '');
+      const text = sources.get(fileName) ?? (fileName.startsWith('/lib/') ? libCache.get(libName) : undefined);
+      if (text === undefined) return undefined;
+      if (!sourceFileCache.has(fileName)) sourceFileCache.set(fileName, ts.createSourceFile(fileName, text, languageVersion));
+      return sourceFileCache.get(fileName);
+    },
+    getDefaultLibFileName: () => `/lib/${defaultLib}`,
+    getDefaultLibLocation: () => '/lib',
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getDirectories: () => [],
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => sources.has(fileName) || (fileName.startsWith('/lib/') && libCache.has(fileName.substring(5))),
+    readFile: fileName => sources.get(fileName),
+  };
+
+  const rootNames = Array.from(sources.keys()).filter(name => /\.(ts|tsx|mts|cts)$/.test(name) && !name.includes('/node_modules/'));
+  const program = ts.createProgram({ rootNames, options, host });
+  const diagnostics = [...errors, ...ts.getPreEmitDiagnostics(program)].filter(d => {
+    if (IGNORED_CODES.has(d.code)) return false;
+    if (!IGNORED_FOR_BARE_IMPORTS.has(d.code)) return true;
+    const specifier = ts.flattenDiagnosticMessageText(d.messageText, '\n').match(/'([^']+)'/)?.[1] ?? '';
+    return /^\.{0,2}\//.test(specifier);
+  });
+  return diagnostics.map(toDiagnostic);
+};
+
+self.onmessage = async (event: MessageEvent<TypeCheckRequest>) => {
+  const { id } = event.data;
+  try {
+    const diagnostics = await typeCheck(event.data);
+    self.postMessage({ id, diagnostics } satisfies TypeCheckResponse);
+  } catch (err) {
+    self.postMessage({ id, error: (err as Error).message } satisfies TypeCheckResponse);
+  }
+};
@@ -0,0 +1,48 @@
+import { FileEntry, TypeCheckDiagnostic } from '../types';
+import type { TypeCheckRequest, TypeCheckResponse } from './typeCheck.worker';
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (d: TypeCheckDiagnostic[]) => void; reject: (e: Error) => void }>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./typeCheck.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<TypeCheckResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ('error' in event.data) request.reject(new Error(event.data.error));
+    else request.resolve(event.data.diagnostics);
+  };
+  worker.onerror = (event) => {
+    pending.forEach(request => request.reject(new Error(event.message || 'Type-check worker crashed.')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+export const isTypeScriptFile = (name: string) => /\.(ts|tsx|mts|cts)$/i.test(name);
+
+/**
+ * Type-checks every TypeScript file in the workspace off the main thread. The shallowest
+ * dropped tsconfig.json supplies compiler options; otherwise strict ES2022 defaults apply.
+ */
+export const runTypeCheck = (files: FileEntry[]): Promise<TypeCheckDiagnostic[]> => {
+  const tsconfig = files
+    .filter(f => f.name === 'tsconfig.json')
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+
+  const request: TypeCheckRequest = {
+    id: nextRequestId++,
+    files: files.filter(f => isTypeScriptFile(f.name) || f.name.endsWith('.d.ts')).map(f => ({ path: f.path, content: f.content })),
+    tsconfig: tsconfig ? { path: tsconfig.path, content: tsconfig.content } : undefined,
+  };
+
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject });
+    getWorker().postMessage(request);
+  });
+};
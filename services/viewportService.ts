@@ -0,0 +1,100 @@
+const STORAGE_KEY_VIEWPORTS = 'bundle_blitz_viewports';
+
+export type DeviceKind = 'responsive' | 'mobile' | 'tablet' | 'desktop' | 'custom';
+
+export interface DevicePreset {
+  id: string;
+  label: string;
+  kind: DeviceKind;
+  width: number;
+  height: number;
+}
+
+// `responsive` fills whatever room the stage has, which is how the preview always behaved
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'responsive', label: 'Responsive', kind: 'responsive', width: 0, height: 0 },
+  { id: 'iphone-se', label: 'iPhone SE', kind: 'mobile', width: 375, height: 667 },
+  { id: 'iphone-15', label: 'iPhone 15', kind: 'mobile', width: 393, height: 852 },
+  { id: 'pixel-8', label: 'Pixel 8', kind: 'mobile', width: 412, height: 915 },
+  { id: 'ipad-mini', label: 'iPad Mini', kind: 'tablet', width: 768, height: 1024 },
+  { id: 'ipad-pro', label: 'iPad Pro 12.9"', kind: 'tablet', width: 1024, height: 1366 },
+  { id: 'laptop', label: 'Laptop', kind: 'desktop', width: 1366, height: 768 },
+  { id: 'desktop', label: 'Desktop', kind: 'desktop', width: 1920, height: 1080 },
+];
+
+export const CUSTOM_PRESET_ID = 'custom';
+
+// What `prefers-color-scheme` reports inside the frame; `system` follows the OS
+export type ColorSchemeOverride = 'system' | 'light' | 'dark';
+
+export interface Viewport {
+  id: string;
+  presetId: string;
+  width: number;
+  height: number;
+  rotated: boolean;
+  colorScheme: ColorSchemeOverride;
+}
+
+export interface ViewportSettings {
+  viewports: Viewport[];
+  // A percentage, or `fit` to scale every viewport down until they all fit the stage
+  zoom: number | 'fit';
+}
+
+export const ZOOM_LEVELS = [25, 50, 75, 100, 125, 150];
+
+export const MAX_VIEWPORTS = 4;
+
+export const findPreset = (presetId: string) => DEVICE_PRESETS.find(p => p.id === presetId);
+
+export const isResponsive = (viewport: Viewport) => viewport.presetId === 'responsive';
+
+export const createViewport = (presetId = 'responsive'): Viewport => {
+  const preset = findPreset(presetId) ?? DEVICE_PRESETS[0];
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    presetId: preset.id,
+    width: preset.width,
+    height: preset.height,
+    rotated: false,
+    colorScheme: 'system',
+  };
+};
+
+/**
+ * The CSS pixel size a viewport renders at, with rotation applied. Null for a responsive viewport.
+ */
+export const getViewportSize = (viewport: Viewport) => {
+  if (isResponsive(viewport)) return null;
+  return viewport.rotated
+    ? { width: viewport.height, height: viewport.width }
+    : { width: viewport.width, height: viewport.height };
+};
+
+const defaultSettings = (): ViewportSettings => ({ viewports: [createViewport()], zoom: 'fit' });
+
+const isViewport = (value: any): value is Viewport =>
+  !!value && typeof value.id === 'string' && typeof value.presetId === 'string'
+  && Number.isFinite(value.width) && Number.isFinite(value.height)
+  && ['system', 'light', 'dark'].includes(value.colorScheme);
+
+// `scope` keeps the Preview and the Playground on their own layouts
+const viewportsKey = (scope: string) => `${STORAGE_KEY_VIEWPORTS}:${scope}`;
+
+export const loadViewportSettings = (scope: string): ViewportSettings => {
+  const saved = localStorage.getItem(viewportsKey(scope));
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      const viewports = Array.isArray(parsed?.viewports) ? parsed.viewports.filter(isViewport).slice(0, MAX_VIEWPORTS) : [];
+      const zoom = parsed?.zoom === 'fit' || ZOOM_LEVELS.includes(parsed?.zoom) ? parsed.zoom : 'fit';
+      if (viewports.length > 0) return { viewports, zoom };
+    } catch (e) {}
+  }
+  return defaultSettings();
+};
+
+export const saveViewportSettings = (scope: string, settings: ViewportSettings) => {
+  localStorage.setItem(viewportsKey(scope), JSON.stringify(settings));
+};
@@ -2,22 +2,136 @@
 export interface FileEntry {
   id: string;
   name: string;
+  path: string;
   size: number;
   content: string;
   type: string;
 }
 
+export interface SelectedFile {
+  file: File;
+  path: string;
+}
+
 export interface BundleStats {
   totalSize: number;
   fileCount: number;
   linesOfCode: number;
 }
 
+export type BundleFormat = 'iife' | 'esm';
+
+export type BundleMode = 'development' | 'production';
+
+export interface SizeReport {
+  raw: number;
+  gzip: number;
+  brotli: number;
+}
+
+export interface ModuleSizeReport {
+  // Workspace path, or '' for bundler runtime and helpers no source claims
+  path: string;
+  transpiled: number;
+  output: number;
+  gzip: number;
+}
+
+export interface BundleSizeComparison {
+  before: SizeReport;
+  after: SizeReport;
+}
+
+export interface SourceMap {
+  version: number;
+  file?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+}
+
+export interface BundleWarning {
+  source: DiagnosticSource;
+  message: string;
+  file?: string;
+}
+
+export interface BundleResult {
+  code: string;
+  map: SourceMap;
+  entry: string;
+  modules: string[];
+  externals: string[];
+  removedExports: string[];
+  // Byte size of each module after its own Babel transform, keyed by module id
+  transpiledSizes: Record<string, number>;
+  warnings: BundleWarning[];
+  // Module transforms run for this build vs. served from the transform cache
+  transformStats: { transformed: number; cached: number };
+  // Set for production builds: the emitted bundle before minification
+  unminifiedCode?: string;
+}
+
+export interface BundleSettings {
+  bundleType: 'JS' | 'HTML';
+  format: BundleFormat;
+  mode: BundleMode;
+  entry: string | null;
+  transpile: boolean;
+  sourceMaps: boolean;
+  preserveLicenseComments: boolean;
+}
+
+export interface BundleSnapshot {
+  id: string;
+  timestamp: number;
+  code: string;
+  settings: BundleSettings;
+  stats: BundleStats;
+  sizes: BundleSizeComparison | null;
+  modules: string[];
+}
+
+export interface RefactorProposal {
+  path: string;
+  original: string;
+  modified: string;
+}
+
+export interface DependencyGraph {
+  nodes: { id: string; size: number; isScript: boolean }[];
+  edges: { from: string; to: string; specifier: string }[];
+  unresolved: { from: string; specifier: string }[];
+  externals: string[];
+  cycles: string[][];
+  // Script files no other module imports; the entry point is usually one of them
+  orphans: string[];
+  parseErrors: { id: string; message: string }[];
+}
+
+export type DiagnosticSource = 'app' | 'import' | 'bundler' | 'babel' | 'eslint' | 'typescript' | 'prettier' | 'ai';
+
+// An edit that resolves a diagnostic: `range` (character offsets) of the file is replaced with `text`
+export interface DiagnosticFix {
+  range: [number, number];
+  text: string;
+  // The file content the range refers to; the fix no longer applies once the file changes
+  content: string;
+}
+
 export interface Diagnostic {
   id: string;
   type: 'info' | 'warning' | 'error';
+  source: DiagnosticSource;
   message: string;
   timestamp: number;
+  // Workspace path; line is 1-based and column 1-based like ESLint and TypeScript report them
+  file?: string;
+  line?: number;
+  column?: number;
+  ruleId?: string | null;
+  fix?: DiagnosticFix;
 }
 
 export enum ViewMode {
@@ -28,11 +142,41 @@ export enum ViewMode {
   PLAYGROUND = 'PLAYGROUND'
 }
 
+export interface TypeCheckDiagnostic {
+  code: number;
+  category: 'error' | 'warning' | 'info';
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
 export interface LintIssue {
+  file?: string;
   line?: number;
+  // Line in the bundled output; line/file point at the original source when a source map resolves it
+  generatedLine?: number;
   severity: 'error' | 'warning' | 'info';
   message: string;
   suggestion?: string;
+  origin?: 'ai' | 'eslint';
+  ruleId?: string | null;
+}
+
+export type LintRuleLevel = 'off' | 'warn' | 'error';
+
+// A bare level, or ESLint's [level, ...options] tuple
+export type LintRuleSetting = LintRuleLevel | [LintRuleLevel, ...unknown[]];
+
+export type LintPreset = 'recommended' | 'strict' | 'none';
+
+export interface LintConfig {
+  rules: Record<string, LintRuleSetting>;
+  globals: Record<string, 'readonly' | 'writable' | 'off'>;
+  // Path of the workspace config file the rules came from, or null when they come from the rules editor
+  source: string | null;
+  // Plugin rules from a workspace config; plugins cannot be loaded in the browser
+  skippedRules: string[];
 }
 
 export interface PropDefinition {